@@ -0,0 +1,83 @@
+import * as ts from "typescript";
+import * as fs from "fs";
+import * as path from "path";
+import { ImportResolver } from "./importResolver";
+import { getLazyImportPath } from "./routeParser";
+
+/** Marks the root of an AdonisJS app. */
+export const ADONISRC_FILE = "adonisrc.ts";
+
+export function isAdonisAppRoot(directory: string): boolean {
+  return fs.existsSync(path.join(directory, ADONISRC_FILE));
+}
+
+/**
+ * Reads the module specifiers of the `preloads` of an `adonisrc.ts`, in the
+ * order AdonisJS imports them:
+ *
+ *   preloads: [
+ *     () => import('#start/routes'),
+ *     { file: () => import('#start/admin_routes'), environment: ['web'] },
+ *   ]
+ */
+export function parsePreloads(sourceFile: ts.SourceFile): string[] {
+  const preloads: string[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isPropertyAssignment(node) &&
+      node.name.getText(sourceFile) === "preloads" &&
+      ts.isArrayLiteralExpression(node.initializer)
+    ) {
+      for (const element of node.initializer.elements) {
+        let preload: ts.Expression = element;
+        if (ts.isObjectLiteralExpression(element)) {
+          const file = element.properties.find(
+            (property): property is ts.PropertyAssignment =>
+              ts.isPropertyAssignment(property) &&
+              property.name.getText(sourceFile) === "file"
+          );
+          if (!file) continue;
+          preload = file.initializer;
+        }
+
+        const importPath = getLazyImportPath(preload);
+        if (importPath) preloads.push(importPath);
+      }
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return preloads;
+}
+
+/**
+ * Resolves the preloaded modules of an app to files, or returns an empty
+ * list when the app has no readable `adonisrc.ts`.
+ */
+export function readPreloadFiles(
+  projectRoot: string,
+  importResolver: ImportResolver
+): string[] {
+  const rcPath = path.join(projectRoot, ADONISRC_FILE);
+  let text: string;
+  try {
+    text = fs.readFileSync(rcPath, "utf8");
+  } catch {
+    return [];
+  }
+
+  const sourceFile = ts.createSourceFile(
+    rcPath,
+    text,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  return parsePreloads(sourceFile)
+    .map((importPath) =>
+      importResolver.resolve(importPath, rcPath, projectRoot)
+    )
+    .filter((filePath): filePath is string => !!filePath);
+}
@@ -0,0 +1,156 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { ImportResolver } from "./importResolver";
+import { MiddlewareKernel } from "./middlewareKernel";
+import { RouteChecker, RouteProblem } from "./routeChecks";
+import { loadRoutesProject } from "./routeProject";
+import { RouteResolver } from "./routeResolver";
+import { TypeScriptProjects } from "./typeScriptProjects";
+
+const USAGE = `Usage: adonis-routes-check [projectRoot] [options]
+
+Checks that every route of an AdonisJS project resolves to an existing
+controller method, and reports unregistered middleware and conflicting
+routes.
+
+Options:
+  --json        Print the problems as JSON
+  --strict      Also fail on warnings (conflicting routes)
+  --typescript  Resolve through the TypeScript compiler and the project's
+                tsconfig.json
+  --help        Show this message
+
+Exits with 1 when problems were found and 2 when the project could not be
+checked.`;
+
+interface CliOptions {
+  projectRoot: string;
+  json: boolean;
+  strict: boolean;
+  typescript: boolean;
+}
+
+function parseArgs(args: string[]): CliOptions | null {
+  const options: CliOptions = {
+    projectRoot: process.cwd(),
+    json: false,
+    strict: false,
+    typescript: false,
+  };
+  for (const arg of args) {
+    if (arg === "--json") {
+      options.json = true;
+    } else if (arg === "--strict") {
+      options.strict = true;
+    } else if (arg === "--typescript") {
+      options.typescript = true;
+    } else if (arg.startsWith("-")) {
+      return null;
+    } else {
+      options.projectRoot = path.resolve(arg);
+    }
+  }
+  return options;
+}
+
+function checkProject({
+  projectRoot,
+  typescript,
+}: CliOptions): RouteProblem[] {
+  const typeScriptProjects = new TypeScriptProjects();
+  typeScriptProjects.setEnabled(typescript);
+  const importResolver = new ImportResolver(typeScriptProjects);
+  const routeChecker = new RouteChecker(
+    new RouteResolver(importResolver, typeScriptProjects),
+    new MiddlewareKernel(importResolver)
+  );
+  const project = loadRoutesProject(projectRoot, importResolver);
+
+  const problems = routeChecker.checkConflicts(
+    project.routes,
+    (filePath) => project.fileOrder.get(filePath) ?? project.fileOrder.size
+  );
+  for (const [filePath, file] of project.files) {
+    problems.push(
+      ...routeChecker.checkFile(
+        file.sourceFile,
+        project.routes.filter((route) => route.filePath === filePath),
+        projectRoot
+      )
+    );
+  }
+
+  return problems.sort(
+    (a, b) =>
+      a.filePath.localeCompare(b.filePath) ||
+      a.range.start.line - b.range.start.line ||
+      a.range.start.character - b.range.start.character
+  );
+}
+
+function formatProblem(problem: RouteProblem, projectRoot: string): string {
+  const { line, character } = problem.range.start;
+  return `${path.relative(projectRoot, problem.filePath)}:${line + 1}:${
+    character + 1
+  } - ${problem.severity} ${problem.code}: ${problem.message}`;
+}
+
+function main(args: string[]): number {
+  if (args.includes("--help")) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const options = parseArgs(args);
+  if (!options) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const { projectRoot } = options;
+  if (!fs.existsSync(path.join(projectRoot, "package.json"))) {
+    console.error(`No package.json found in ${projectRoot}.`);
+    return 2;
+  }
+
+  let problems: RouteProblem[];
+  try {
+    problems = checkProject(options);
+  } catch (error) {
+    console.error("Failed to check routes:", error);
+    return 2;
+  }
+
+  const errors = problems.filter((problem) => problem.severity === "error");
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        problems.map((problem) => ({
+          ...problem,
+          filePath: path.relative(projectRoot, problem.filePath),
+          related: problem.related && {
+            ...problem.related,
+            filePath: path.relative(projectRoot, problem.related.filePath),
+          },
+        })),
+        null,
+        2
+      )
+    );
+  } else {
+    for (const problem of problems) {
+      console.log(formatProblem(problem, projectRoot));
+    }
+    const warnings = problems.length - errors.length;
+    console.log(
+      `\n${errors.length} ${errors.length === 1 ? "error" : "errors"}, ` +
+        `${warnings} ${warnings === 1 ? "warning" : "warnings"}.`
+    );
+  }
+
+  const failed = options.strict ? problems.length > 0 : errors.length > 0;
+  return failed ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,196 @@
+import * as ts from "typescript";
+import {
+  TextEdit,
+  createLazyImportSource,
+  getLeadingImports,
+  getQuote,
+  insertAt,
+  replaceAt,
+} from "./controllerScaffold";
+import {
+  RouteRecord,
+  SourceRange,
+  getLazyImportPath,
+  getRange,
+} from "./routeParser";
+
+/**
+ * A controller loaded with a static `import UsersController from '...'`
+ * instead of a lazy `() => import('...')`.
+ */
+export interface EagerControllerImport {
+  localName: string;
+  importPath: string;
+  declaration: ts.ImportDeclaration;
+  /** Range of the imported name. */
+  range: SourceRange;
+}
+
+/**
+ * Finds the static default imports of controllers in a routes file: imports
+ * from `#controllers/*`, and imports of names the routes use as controllers.
+ * Type-only imports and imports with named bindings are left alone.
+ */
+export function findEagerControllerImports(
+  sourceFile: ts.SourceFile,
+  routes: RouteRecord[]
+): EagerControllerImport[] {
+  const controllerNames = getControllerNames(routes);
+  const imports: EagerControllerImport[] = [];
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      !statement.importClause?.name ||
+      statement.importClause.isTypeOnly ||
+      statement.importClause.namedBindings
+    ) {
+      continue;
+    }
+
+    const localName = statement.importClause.name;
+    const importPath = statement.moduleSpecifier.text;
+    if (isControllerImport(localName.text, importPath, controllerNames)) {
+      imports.push({
+        localName: localName.text,
+        importPath,
+        declaration: statement,
+        range: getRange(sourceFile, localName),
+      });
+    }
+  }
+  return imports;
+}
+
+/**
+ * Whether a routes file declares at least one controller lazily.
+ */
+export function hasLazyControllerImports(
+  sourceFile: ts.SourceFile,
+  routes: RouteRecord[]
+): boolean {
+  const controllerNames = getControllerNames(routes);
+  return sourceFile.statements.some(
+    (statement) =>
+      ts.isVariableStatement(statement) &&
+      statement.declarationList.declarations.some((declaration) => {
+        const importPath =
+          declaration.initializer &&
+          getLazyImportPath(declaration.initializer);
+        return (
+          !!importPath &&
+          ts.isIdentifier(declaration.name) &&
+          isControllerImport(
+            declaration.name.text,
+            importPath,
+            controllerNames
+          )
+        );
+      })
+  );
+}
+
+/**
+ * Rewrites static controller imports into lazy declarations, placed with the
+ * file's other lazy imports, or after its remaining imports.
+ */
+export function planLazyImportConversion(
+  sourceFile: ts.SourceFile,
+  imports: EagerControllerImport[]
+): TextEdit[] {
+  if (imports.length === 0) return [];
+
+  const quote = getQuote(sourceFile);
+  const declarations = imports.map(({ localName, importPath, declaration }) =>
+    createLazyImportSource(
+      localName,
+      importPath,
+      quote,
+      declaration.getText(sourceFile).endsWith(";")
+    )
+  );
+
+  const converted = new Set<ts.Statement>(
+    imports.map((eager) => eager.declaration)
+  );
+  const leading = getLeadingImports(sourceFile);
+  const firstLazy = leading.find(
+    (statement) => !ts.isImportDeclaration(statement)
+  );
+  const lastImport = leading
+    .filter(
+      (statement) =>
+        ts.isImportDeclaration(statement) && !converted.has(statement)
+    )
+    .pop();
+
+  const edits: TextEdit[] = [];
+  let removed = imports.map((eager) => eager.declaration);
+  if (firstLazy) {
+    edits.push(
+      insertAt(
+        sourceFile,
+        firstLazy.getStart(sourceFile, true),
+        declarations.map((declaration) => `${declaration}\n`).join("")
+      )
+    );
+  } else if (lastImport) {
+    edits.push(
+      insertAt(
+        sourceFile,
+        lastImport.getEnd(),
+        `\n\n${declarations.join("\n")}`
+      )
+    );
+  } else {
+    // Every import is converted: the first one becomes the declarations
+    const [first, ...rest] = removed;
+    edits.push(
+      replaceAt(
+        sourceFile,
+        first.getStart(sourceFile),
+        first.getEnd(),
+        declarations.join("\n")
+      )
+    );
+    removed = rest;
+  }
+
+  for (const declaration of removed) {
+    edits.push(removeLines(sourceFile, declaration));
+  }
+  return edits;
+}
+
+/** The names routes use as controllers (`[UsersController, 'index']`). */
+function getControllerNames(routes: RouteRecord[]): Set<string> {
+  const names = new Set<string>();
+  for (const route of routes) {
+    const name = route.handler?.controllerName || route.handler?.variableName;
+    if (name) names.add(name);
+  }
+  return names;
+}
+
+function isControllerImport(
+  localName: string,
+  importPath: string,
+  controllerNames: Set<string>
+): boolean {
+  return (
+    importPath.startsWith("#controllers/") || controllerNames.has(localName)
+  );
+}
+
+/** Removes a statement with the lines it spans. */
+function removeLines(sourceFile: ts.SourceFile, node: ts.Node): TextEdit {
+  const text = sourceFile.text;
+  const start = text.lastIndexOf("\n", node.getStart(sourceFile, true) - 1) + 1;
+  const lineEnd = text.indexOf("\n", node.getEnd());
+  return replaceAt(
+    sourceFile,
+    start,
+    lineEnd === -1 ? text.length : lineEnd + 1,
+    ""
+  );
+}
@@ -0,0 +1,105 @@
+import * as vscode from "vscode";
+import * as ts from "typescript";
+import { findControllerClasses, getPublicMethods } from "./controllerParser";
+import { formatParam, formatRoute } from "./routeFormat";
+import { RouteParam } from "./routeParser";
+import { RouteTargets } from "./routeTargets";
+
+/** `request.param('` with the part of the name typed so far. */
+const PARAM_CALL = /\.param\(\s*['"`]([\w*]*)$/;
+/** `params.`, `ctx.params.` or `request.params().` with the typed name. */
+const PARAMS_ACCESS = /\bparams(?:\(\))?\.(\w*)$/;
+/** `subdomains.` or `ctx.subdomains.`, the params of the route domain. */
+const SUBDOMAINS_ACCESS = /\bsubdomains\.(\w*)$/;
+
+/**
+ * Completes the route params available in a controller method, taken from
+ * the patterns of the routes it handles: `request.param('id')` and
+ * `params.id`, and `subdomains.tenant` for the params of their domains.
+ */
+export class ControllerParamCompletionProvider
+  implements vscode.CompletionItemProvider
+{
+  constructor(private routeTargets: RouteTargets) {}
+
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.CompletionItem[]> {
+    try {
+      const linePrefix = document
+        .lineAt(position.line)
+        .text.slice(0, position.character);
+      const callMatch = PARAM_CALL.exec(linePrefix);
+      const subdomainsMatch = SUBDOMAINS_ACCESS.exec(linePrefix);
+      const match =
+        callMatch || subdomainsMatch || PARAMS_ACCESS.exec(linePrefix);
+      if (!match) return null;
+
+      const methodName = this.findEnclosingMethod(document, position);
+      if (!methodName) return null;
+
+      const params = new Map<string, { param: RouteParam; routes: string[] }>();
+      for (const target of this.routeTargets.getTargetsForController(
+        document.fileName,
+        methodName
+      )) {
+        const routeParams = subdomainsMatch
+          ? target.route.domainParams
+          : target.route.params;
+        for (const param of routeParams) {
+          const entry = params.get(param.name) || { param, routes: [] };
+          entry.routes.push(formatRoute(target.route));
+          params.set(param.name, entry);
+        }
+      }
+
+      const range = new vscode.Range(
+        position.translate(0, -match[1].length),
+        position
+      );
+      return Array.from(params.values())
+        // Wildcards are not valid identifiers
+        .filter(({ param }) => callMatch || !param.wildcard)
+        .map(({ param, routes }) => {
+          const item = new vscode.CompletionItem(
+            param.name,
+            vscode.CompletionItemKind.Property
+          );
+          item.range = range;
+          item.detail = formatParam(param);
+          item.documentation = routes.join("\n");
+          return item;
+        });
+    } catch (error) {
+      console.error("AdonisJS Routes Goto Error:", error);
+      return null;
+    }
+  }
+
+  private findEnclosingMethod(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): string | null {
+    const sourceFile = ts.createSourceFile(
+      document.fileName,
+      document.getText(),
+      ts.ScriptTarget.Latest,
+      true
+    );
+    const offset = document.offsetAt(position);
+
+    for (const controllerClass of findControllerClasses(sourceFile)) {
+      for (const method of getPublicMethods(controllerClass)) {
+        if (
+          method.body &&
+          offset > method.body.getStart(sourceFile) &&
+          offset < method.body.getEnd()
+        ) {
+          return method.name.getText(sourceFile);
+        }
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,78 @@
+import * as ts from "typescript";
+
+export type ControllerMethod = ts.MethodDeclaration & { name: ts.Identifier };
+
+/**
+ * Returns the top-level classes of a controller file, the default-exported
+ * class first.
+ */
+export function findControllerClasses(
+  sourceFile: ts.SourceFile
+): ts.ClassDeclaration[] {
+  const classes = sourceFile.statements.filter(ts.isClassDeclaration);
+  return classes.sort(
+    (a, b) => Number(isDefaultExport(b)) - Number(isDefaultExport(a))
+  );
+}
+
+export function getPublicMethods(
+  controllerClass: ts.ClassLikeDeclaration
+): ControllerMethod[] {
+  return controllerClass.members.filter(
+    (member): member is ControllerMethod =>
+      ts.isMethodDeclaration(member) &&
+      ts.isIdentifier(member.name) &&
+      !member.modifiers?.some(
+        (m) =>
+          m.kind === ts.SyntaxKind.PrivateKeyword ||
+          m.kind === ts.SyntaxKind.ProtectedKeyword ||
+          m.kind === ts.SyntaxKind.StaticKeyword
+      )
+  );
+}
+
+/**
+ * Formats a method as `async name(params): ReturnType`.
+ */
+export function getMethodSignature(
+  method: ts.MethodDeclaration,
+  sourceFile: ts.SourceFile
+): string {
+  const isAsync = method.modifiers?.some(
+    (m) => m.kind === ts.SyntaxKind.AsyncKeyword
+  );
+  const params = method.parameters
+    .map((param) => param.getText(sourceFile))
+    .join(", ");
+  const returnType = method.type ? `: ${method.type.getText(sourceFile)}` : "";
+  return `${isAsync ? "async " : ""}${method.name.getText(
+    sourceFile
+  )}(${params})${returnType}`;
+}
+
+export function getMethodDocumentation(
+  method: ts.MethodDeclaration,
+  sourceFile: ts.SourceFile
+): string | undefined {
+  const text = sourceFile.getFullText();
+  const docs = (ts.getLeadingCommentRanges(text, method.getFullStart()) || [])
+    .map((range) => text.slice(range.pos, range.end))
+    .filter((comment) => comment.startsWith("/**"))
+    .map((comment) =>
+      comment
+        .replace(/^\/\*\*|\*\/$/g, "")
+        .split("\n")
+        .map((line) => line.replace(/^\s*\* ?/, "").trimEnd())
+        .join("\n")
+        .trim()
+    )
+    .filter((comment) => comment.length > 0);
+  return docs.length > 0 ? docs.join("\n\n") : undefined;
+}
+
+function isDefaultExport(node: ts.ClassDeclaration): boolean {
+  return (
+    !!node.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword) &&
+    !!node.modifiers?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword)
+  );
+}
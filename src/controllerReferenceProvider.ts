@@ -0,0 +1,138 @@
+import * as vscode from "vscode";
+import * as ts from "typescript";
+import { findControllerClasses, getPublicMethods } from "./controllerParser";
+import { formatRoute } from "./routeFormat";
+import { RouteIndex } from "./routeIndex";
+import { toVscodeRange } from "./routeNavigation";
+import { RouteTarget, RouteTargets } from "./routeTargets";
+
+/**
+ * Reverse navigation for controllers: lists the routes whose handler points at
+ * a controller method, both through "Find All References" and a CodeLens above
+ * every public method.
+ */
+export class ControllerReferenceProvider
+  implements vscode.ReferenceProvider, vscode.CodeLensProvider
+{
+  readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+  constructor(routeIndex: RouteIndex, private routeTargets: RouteTargets) {
+    this.onDidChangeCodeLenses = routeIndex.onDidChange;
+  }
+
+  provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.Location[]> {
+    try {
+      const sourceFile = this.createSourceFile(document);
+      const offset = document.offsetAt(position);
+
+      for (const controllerClass of findControllerClasses(sourceFile)) {
+        // Clicking the class name lists every route of the controller
+        if (
+          controllerClass.name &&
+          this.containsOffset(controllerClass.name, offset, sourceFile)
+        ) {
+          return this.toLocations(
+            this.routeTargets.getTargetsForController(document.fileName)
+          );
+        }
+
+        for (const method of getPublicMethods(controllerClass)) {
+          if (this.containsOffset(method.name, offset, sourceFile)) {
+            return this.toLocations(
+              this.routeTargets.getTargetsForController(
+                document.fileName,
+                method.name.getText(sourceFile)
+              )
+            );
+          }
+        }
+      }
+
+      return null;
+    } catch (error) {
+      console.error("AdonisJS Routes Goto Error:", error);
+      return null;
+    }
+  }
+
+  provideCodeLenses(
+    document: vscode.TextDocument
+  ): vscode.ProviderResult<vscode.CodeLens[]> {
+    try {
+      const targets = this.routeTargets.getTargetsForController(
+        document.fileName
+      );
+      if (targets.length === 0) return [];
+
+      const sourceFile = this.createSourceFile(document);
+      const lenses: vscode.CodeLens[] = [];
+
+      for (const controllerClass of findControllerClasses(sourceFile)) {
+        for (const method of getPublicMethods(controllerClass)) {
+          const methodTargets = this.routeTargets.getTargetsForController(
+            document.fileName,
+            method.name.getText(sourceFile)
+          );
+          if (methodTargets.length === 0) continue;
+
+          const start = document.positionAt(method.name.getStart(sourceFile));
+          const range = new vscode.Range(start, start);
+          lenses.push(
+            new vscode.CodeLens(range, {
+              title: this.formatLensTitle(methodTargets),
+              tooltip: methodTargets.map(formatTarget).join("\n"),
+              command: "editor.action.showReferences",
+              arguments: [document.uri, start, this.toLocations(methodTargets)],
+            })
+          );
+        }
+      }
+
+      return lenses;
+    } catch (error) {
+      console.error("AdonisJS Routes Goto Error:", error);
+      return [];
+    }
+  }
+
+  private formatLensTitle(targets: RouteTarget[]): string {
+    if (targets.length === 1) {
+      return formatTarget(targets[0]);
+    }
+    return `${targets.length} routes: ${targets.map(formatTarget).join(", ")}`;
+  }
+
+  private toLocations(targets: RouteTarget[]): vscode.Location[] {
+    return targets.map(({ route }) => {
+      const range = route.handler?.methodRange || route.range;
+      return new vscode.Location(
+        vscode.Uri.file(route.filePath),
+        toVscodeRange(range)
+      );
+    });
+  }
+
+  private createSourceFile(document: vscode.TextDocument): ts.SourceFile {
+    return ts.createSourceFile(
+      document.fileName,
+      document.getText(),
+      ts.ScriptTarget.Latest,
+      true
+    );
+  }
+
+  private containsOffset(
+    node: ts.Node,
+    offset: number,
+    sourceFile: ts.SourceFile
+  ): boolean {
+    return offset >= node.getStart(sourceFile) && offset <= node.getEnd();
+  }
+}
+
+function formatTarget({ route }: RouteTarget): string {
+  return formatRoute(route);
+}
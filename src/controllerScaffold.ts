@@ -0,0 +1,263 @@
+import * as ts from "typescript";
+import * as path from "path";
+import { ImportResolver } from "./importResolver";
+import {
+  SourceRange,
+  findImportBinding,
+  getControllerFileName,
+  isLazyImportDeclaration,
+} from "./routeParser";
+import { ControllerClass } from "./routeResolver";
+
+/**
+ * Text replacing a range of a file (inserted when the range is empty), the
+ * editor-independent counterpart of a `vscode.TextEdit`.
+ */
+export interface TextEdit {
+  filePath: string;
+  range: SourceRange;
+  text: string;
+}
+
+const CONTROLLERS_ALIAS = "#controllers/*";
+const HTTP_CONTEXT_IMPORT =
+  "import type { HttpContext } from '@adonisjs/core/http'";
+
+/**
+ * `refund` -> `async refund({ request, response }: HttpContext) {}`
+ */
+export function createMethodSource(methodName: string): string {
+  return `async ${methodName}({ request, response }: HttpContext) {}`;
+}
+
+/**
+ * The source of a new controller file whose default-exported class declares
+ * `methodNames`.
+ */
+export function createControllerSource(
+  className: string,
+  methodNames: string[]
+): string {
+  const methods = methodNames
+    .map((methodName) => `  ${createMethodSource(methodName)}`)
+    .join("\n\n");
+  return `${HTTP_CONTEXT_IMPORT}\n\nexport default class ${className} {\n${methods}\n}\n`;
+}
+
+/**
+ * Adds a method at the end of a controller class, and the `HttpContext`
+ * type import when the file lacks it.
+ */
+export function planMethodInsertion(
+  controller: ControllerClass,
+  methodName: string
+): TextEdit[] {
+  const { sourceFile, node } = controller;
+  const text = sourceFile.text;
+  const closeBrace = node.getEnd() - 1;
+  const lastMember = node.members[node.members.length - 1];
+  const indent = lastMember
+    ? getIndentation(sourceFile, lastMember.getStart(sourceFile))
+    : getIndentation(sourceFile, node.getStart(sourceFile)) + "  ";
+  const method = `${indent}${createMethodSource(methodName)}\n`;
+
+  // `class X {}` gets the method on its own line before the brace; otherwise
+  // the method goes on the line above the closing brace
+  const lineStart = text.lastIndexOf("\n", closeBrace - 1) + 1;
+  const braceOnOwnLine = text.slice(lineStart, closeBrace).trim() === "";
+  const insertions = [
+    braceOnOwnLine
+      ? insertAt(sourceFile, lineStart, (lastMember ? "\n" : "") + method)
+      : insertAt(sourceFile, closeBrace, `\n${method}`),
+  ];
+
+  if (!findImportBinding("HttpContext", sourceFile)) {
+    const firstStatement = sourceFile.statements[0];
+    insertions.unshift(
+      insertAt(
+        sourceFile,
+        firstStatement ? firstStatement.getStart(sourceFile, true) : 0,
+        firstStatement && !ts.isImportDeclaration(firstStatement)
+          ? `${HTTP_CONTEXT_IMPORT}\n\n`
+          : `${HTTP_CONTEXT_IMPORT}\n`
+      )
+    );
+  }
+  return insertions;
+}
+
+/**
+ * Declares `const UsersController = () => import('#controllers/...')` after
+ * the imports at the top of a routes file, before any route can use it.
+ */
+export function planControllerImport(
+  sourceFile: ts.SourceFile,
+  controllerName: string,
+  importPath: string
+): TextEdit {
+  const anchor = getLeadingImports(sourceFile).pop();
+  const declaration = createLazyImportSource(
+    controllerName,
+    importPath,
+    getQuote(sourceFile),
+    !!anchor?.getText(sourceFile).endsWith(";")
+  );
+
+  if (!anchor) {
+    const firstStatement = sourceFile.statements[0];
+    return insertAt(
+      sourceFile,
+      firstStatement ? firstStatement.getStart(sourceFile, true) : 0,
+      `${declaration}\n\n`
+    );
+  }
+  return insertAt(
+    sourceFile,
+    anchor.getEnd(),
+    ts.isImportDeclaration(anchor) ? `\n\n${declaration}` : `\n${declaration}`
+  );
+}
+
+/**
+ * `const UsersController = () => import('#controllers/users_controller')`
+ */
+export function createLazyImportSource(
+  controllerName: string,
+  importPath: string,
+  quote = "'",
+  semicolon = false
+): string {
+  const specifier = `${quote}${importPath}${quote}`;
+  return `const ${controllerName} = () => import(${specifier})${
+    semicolon ? ";" : ""
+  }`;
+}
+
+/**
+ * The import declarations and lazy imports at the top of a file, before its
+ * first other statement.
+ */
+export function getLeadingImports(sourceFile: ts.SourceFile): ts.Statement[] {
+  const leading: ts.Statement[] = [];
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) &&
+      !isLazyImportDeclaration(statement)
+    ) {
+      break;
+    }
+    leading.push(statement);
+  }
+  return leading;
+}
+
+/**
+ * Whether a name is declared at the top level of a file: imported, or
+ * declared as a variable, class or function.
+ */
+export function isDeclaredInFile(
+  name: string,
+  sourceFile: ts.SourceFile
+): boolean {
+  if (findImportBinding(name, sourceFile)) return true;
+
+  return sourceFile.statements.some((statement) => {
+    if (ts.isVariableStatement(statement)) {
+      return statement.declarationList.declarations.some(
+        (declaration) =>
+          ts.isIdentifier(declaration.name) && declaration.name.text === name
+      );
+    }
+    return (
+      (ts.isClassDeclaration(statement) ||
+        ts.isFunctionDeclaration(statement)) &&
+      statement.name?.text === name
+    );
+  });
+}
+
+/**
+ * Where a controller lives by convention under the `#controllers/*`
+ * directory, and the specifier importing it, whether or not the file exists.
+ */
+export function getConventionalController(
+  controllerName: string,
+  projectRoot: string,
+  importResolver: ImportResolver
+): { filePath: string; importPath: string } | null {
+  const basePath = importResolver.getWildcardBaseDir(
+    CONTROLLERS_ALIAS,
+    projectRoot
+  );
+  if (!basePath) return null;
+
+  const fileName = getControllerFileName(controllerName);
+  return {
+    filePath: path.join(basePath, `${fileName}.ts`),
+    importPath: `#controllers/${fileName}`,
+  };
+}
+
+/**
+ * The `#controllers/...` specifier of an existing controller file, or null
+ * when it is outside of the `#controllers/*` directory.
+ */
+export function getControllerImportPath(
+  controllerPath: string,
+  projectRoot: string,
+  importResolver: ImportResolver
+): string | null {
+  const basePath = importResolver.getWildcardBaseDir(
+    CONTROLLERS_ALIAS,
+    projectRoot
+  );
+  if (!basePath) return null;
+
+  const relativePath = path.relative(basePath, controllerPath);
+  if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+    return null;
+  }
+  return `#controllers/${relativePath
+    .replace(/\.[cm]?[jt]sx?$/, "")
+    .split(path.sep)
+    .join("/")}`;
+}
+
+/** The quote style of the file's first import, single quotes by default. */
+export function getQuote(sourceFile: ts.SourceFile): string {
+  const firstImport = sourceFile.statements.find(ts.isImportDeclaration);
+  return firstImport?.moduleSpecifier.getText(sourceFile).charAt(0) === '"'
+    ? '"'
+    : "'";
+}
+
+function getIndentation(sourceFile: ts.SourceFile, offset: number): string {
+  const lineStart = sourceFile.text.lastIndexOf("\n", offset - 1) + 1;
+  return sourceFile.text.slice(lineStart, offset).match(/^[ \t]*/)![0];
+}
+
+export function insertAt(
+  sourceFile: ts.SourceFile,
+  offset: number,
+  text: string
+): TextEdit {
+  return replaceAt(sourceFile, offset, offset, text);
+}
+
+export function replaceAt(
+  sourceFile: ts.SourceFile,
+  start: number,
+  end: number,
+  text: string
+): TextEdit {
+  const toPosition = (offset: number) => {
+    const { line, character } =
+      sourceFile.getLineAndCharacterOfPosition(offset);
+    return { line, character };
+  };
+  return {
+    filePath: sourceFile.fileName,
+    range: { start: toPosition(start), end: toPosition(end) },
+    text,
+  };
+}
@@ -1,13 +1,30 @@
 import * as vscode from "vscode";
 import * as ts from "typescript";
-import * as path from "path";
-import * as fs from "fs";
+import { ImportResolver, findProjectRoot } from "./importResolver";
+import {
+  MiddlewareKernel,
+  isMiddlewareString,
+  isNamedMiddlewareAccess,
+} from "./middlewareKernel";
+import { RouteIndex } from "./routeIndex";
+import { toLocation } from "./routeNavigation";
+import {
+  HandlerInfo,
+  containsPosition,
+  findControllerImportPath,
+  getRange,
+} from "./routeParser";
+import { RouteResolver } from "./routeResolver";
 
 export class AdonisRoutesDefinitionProvider
   implements vscode.DefinitionProvider
 {
-  private importsCache = new Map<string, any>();
-  private cacheTimestamps = new Map<string, number>();
+  constructor(
+    private routeIndex: RouteIndex,
+    private routeResolver: RouteResolver,
+    private importResolver: ImportResolver,
+    private middlewareKernel: MiddlewareKernel
+  ) {}
 
   provideDefinition(
     document: vscode.TextDocument,
@@ -15,6 +32,10 @@ export class AdonisRoutesDefinitionProvider
     token: vscode.CancellationToken
   ): vscode.ProviderResult<vscode.Definition | vscode.DefinitionLink[]> {
     try {
+      const filePath = document.fileName;
+      // Registered for every TypeScript file; only routes files are handled
+      if (!this.isSupportedFile(filePath)) return null;
+
       console.log(
         "provideDefinition called for file:",
         document.fileName,
@@ -22,14 +43,8 @@ export class AdonisRoutesDefinitionProvider
         position
       );
 
-      const filePath = document.fileName;
       const offset = document.offsetAt(position);
-      const sourceFile = ts.createSourceFile(
-        filePath,
-        document.getText(),
-        ts.ScriptTarget.Latest,
-        true
-      );
+      const sourceFile = this.routeIndex.getSourceFile(document);
 
       const node = this.findNodeAtPosition(sourceFile, offset);
       console.log("Node at position:", node?.kind, node?.getText());
@@ -37,12 +52,6 @@ export class AdonisRoutesDefinitionProvider
         console.log("No node found at position");
         return null;
       }
-
-      // Check if we're in a supported file pattern
-      if (!this.isSupportedFile(filePath)) {
-        console.log("File not supported:", filePath);
-        return null;
-      }
       console.log("File supported, checking project root...");
 
       const projectRoot = this.findProjectRoot(filePath);
@@ -52,6 +61,13 @@ export class AdonisRoutesDefinitionProvider
         return null;
       }
 
+      const handlerLocation = this.resolveHandlerAt(
+        filePath,
+        position,
+        projectRoot
+      );
+      if (handlerLocation) return handlerLocation;
+
       const clickContext = this.analyzeClickContext(node, sourceFile);
       console.log("Click context analyzed:", clickContext);
       if (!clickContext) {
@@ -69,7 +85,11 @@ export class AdonisRoutesDefinitionProvider
       // When clicking controller variables, TypeScript's built-in definition provider will also return
       // the variable declaration. Return a LocationLink with an originSelectionRange to help VS Code
       // prioritize our more meaningful target.
-      if (resolved && clickContext.type === "controller_variable") {
+      if (
+        resolved &&
+        !Array.isArray(resolved) &&
+        clickContext.type === "controller_variable"
+      ) {
         const originSelectionRange = this.getNodeRange(
           document,
           sourceFile,
@@ -92,6 +112,51 @@ export class AdonisRoutesDefinitionProvider
     }
   }
 
+  /**
+   * Resolves clicks on the method of a route handler, and on the controller
+   * of handlers that do not name it with an identifier (`controllers.users`,
+   * `() => import('...')`, '#controllers/users_controller.index').
+   */
+  private resolveHandlerAt(
+    filePath: string,
+    position: vscode.Position,
+    projectRoot: string
+  ): vscode.Location | null {
+    const route = this.routeIndex.getRoutesInFile(filePath).find((route) => {
+      const handler = route.handler;
+      if (!handler || route.resource) return false;
+      if (
+        handler.methodRange &&
+        containsPosition(handler.methodRange, position)
+      ) {
+        return true;
+      }
+      return (
+        ["controller_import", "controller_string", "controller_map"].includes(
+          handler.type
+        ) &&
+        !!handler.controllerRange &&
+        containsPosition(handler.controllerRange, position)
+      );
+    });
+    const handler = route?.handler;
+    if (!handler) return null;
+
+    const controllerPath = this.resolveHandlerController(
+      handler,
+      filePath,
+      projectRoot
+    );
+    if (!controllerPath) return null;
+
+    return toLocation(
+      this.routeResolver.resolveControllerMethod(
+        controllerPath,
+        handler.methodName || "handle"
+      )
+    );
+  }
+
   private getNodeRange(
     document: vscode.TextDocument,
     sourceFile: ts.SourceFile,
@@ -103,23 +168,11 @@ export class AdonisRoutesDefinitionProvider
   }
 
   private isSupportedFile(filePath: string): boolean {
-    const normalizedPath = path.normalize(filePath);
-    return (
-      normalizedPath.includes(path.sep + "routes" + path.sep) ||
-      normalizedPath.endsWith(path.sep + "start" + path.sep + "routes.ts")
-    );
+    return this.routeIndex.isRoutesFile(filePath);
   }
 
-  private findProjectRoot(filePath: string): string | null {
-    let currentDir = path.dirname(filePath);
-    while (currentDir !== path.dirname(currentDir)) {
-      const packageJsonPath = path.join(currentDir, "package.json");
-      if (fs.existsSync(packageJsonPath)) {
-        return currentDir;
-      }
-      currentDir = path.dirname(currentDir);
-    }
-    return null;
+  findProjectRoot(filePath: string): string | null {
+    return findProjectRoot(filePath);
   }
 
   private findNodeAtPosition(
@@ -160,33 +213,37 @@ export class AdonisRoutesDefinitionProvider
     node: ts.Identifier,
     sourceFile: ts.SourceFile
   ): ClickContext | null {
-    // Check if this identifier is part of a router call handler
-    const routerCall = this.findRouterCall(node);
-    if (routerCall) {
-      const handler = this.extractHandlerFromRouterCall(routerCall);
-      if (handler) {
-        if (handler.type === "controller_variable" && handler.variableName) {
-          return {
-            type: "controller_variable",
-            variableName: handler.variableName,
-          };
-        }
+    // Check if this identifier is a named middleware: middleware.auth()
+    if (isNamedMiddlewareAccess(node)) {
+      return {
+        type: "middleware_name",
+        middlewareName: node.text,
+      };
+    }
 
-        // Note: handler.type === 'controller' is handled primarily via clicking the method string.
-        // If clicking the first element in a tuple handler: [ControllerVar, 'method']
-        // Prefer resolving ControllerVar to the imported controller file (not the variable declaration).
-        if (
-          ts.isArrayLiteralExpression(node.parent) &&
-          node.parent.elements.length === 2 &&
-          node.parent.elements[0] === node &&
-          ts.isStringLiteral(node.parent.elements[1])
-        ) {
-          return {
-            type: "controller_variable",
-            variableName: node.text,
-          };
-        }
-      }
+    // Check if this identifier is the controller of an indexed route handler
+    const { start } = getRange(sourceFile, node);
+    const handler = this.routeIndex
+      .getRoutesInFile(sourceFile.fileName)
+      .map((route) => route.handler)
+      .find(
+        (candidate) =>
+          (candidate?.type === "controller" ||
+            candidate?.type === "controller_variable") &&
+          !!candidate.controllerRange &&
+          containsPosition(candidate.controllerRange, start)
+      );
+    if (handler) {
+      // Prefer resolving the controller to its file over the variable
+      // declaration; [Controller] alone runs the controller's `handle` method
+      return {
+        type: "controller_variable",
+        variableName: node.text,
+        methodName:
+          handler.type === "controller" && !handler.methodName
+            ? "handle"
+            : undefined,
+      };
     }
 
     // Check if this is a routes module identifier in group
@@ -205,6 +262,25 @@ export class AdonisRoutesDefinitionProvider
     node: ts.StringLiteral,
     sourceFile: ts.SourceFile
   ): ClickContext | null {
+    // Check if this string is a named middleware: .middleware(['auth'])
+    if (isMiddlewareString(node)) {
+      return {
+        type: "middleware_name",
+        middlewareName: node.text.split(":")[0],
+      };
+    }
+
+    // Check if this string is the resource name of router.resource('posts', ...)
+    if (this.isResourceName(node)) {
+      return {
+        type: "resource_name",
+        resourceName: node.text,
+        line: sourceFile.getLineAndCharacterOfPosition(
+          node.getStart(sourceFile)
+        ).line,
+      };
+    }
+
     // Check if this string is a method name in [Controller, 'method'] tuple
     const tupleContext = this.isMethodStringInTuple(node);
     if (tupleContext) {
@@ -223,85 +299,12 @@ export class AdonisRoutesDefinitionProvider
       };
     }
 
-    return null;
-  }
-
-  private findRouterCall(node: ts.Node): ts.CallExpression | null {
-    let current: ts.Node = node;
-    while (current) {
-      if (
-        ts.isCallExpression(current) &&
-        ts.isPropertyAccessExpression(current.expression)
-      ) {
-        const methodName = current.expression.name.text;
-        if (
-          [
-            "get",
-            "post",
-            "put",
-            "patch",
-            "delete",
-            "route",
-            "resource",
-            "group",
-          ].includes(methodName)
-        ) {
-          return current;
-        }
-      }
-      current = current.parent;
-    }
-    return null;
-  }
-
-  private extractHandlerFromRouterCall(
-    call: ts.CallExpression
-  ): HandlerInfo | null {
-    // Handle method calls like router.get('/path', handler)
-    if (call.arguments.length >= 2) {
-      const handlerArg = call.arguments[1];
-      return this.parseHandlerArgument(handlerArg);
-    }
-
-    // Handle chained calls - look for the original call
-    let currentCall = call;
-    while (currentCall.parent && ts.isCallExpression(currentCall.parent)) {
-      currentCall = currentCall.parent;
-      if (currentCall.arguments.length >= 2) {
-        const handlerArg = currentCall.arguments[1];
-        return this.parseHandlerArgument(handlerArg);
-      }
-    }
-
-    return null;
-  }
-
-  private parseHandlerArgument(arg: ts.Expression): HandlerInfo | null {
-    // Array literal [Controller, 'method']
-    if (ts.isArrayLiteralExpression(arg) && arg.elements.length === 2) {
-      const controllerExpr = arg.elements[0];
-      const methodExpr = arg.elements[1];
-
-      if (ts.isIdentifier(controllerExpr) && ts.isStringLiteral(methodExpr)) {
-        return {
-          type: "controller",
-          controllerName: controllerExpr.text,
-          methodName: methodExpr.text,
-        };
-      }
-    }
-
-    // Arrow function or function expression - skip
-    if (ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)) {
-      return null;
-    }
-
-    // Identifier - could be a controller variable
-    if (ts.isIdentifier(arg)) {
-      // This might be a controller factory variable
+    // Check if this string is another aliased module specifier
+    // (#middleware/*, #validators/*, tsconfig paths, ...)
+    if (this.isModuleSpecifier(node) && !node.text.startsWith(".")) {
       return {
-        type: "controller_variable",
-        variableName: arg.text,
+        type: "module_import_path",
+        importPath: node.text,
       };
     }
 
@@ -331,6 +334,27 @@ export class AdonisRoutesDefinitionProvider
     return null;
   }
 
+  private isModuleSpecifier(node: ts.StringLiteral): boolean {
+    const parent = node.parent;
+    return (
+      ((ts.isImportDeclaration(parent) || ts.isExportDeclaration(parent)) &&
+        parent.moduleSpecifier === node) ||
+      (ts.isCallExpression(parent) &&
+        parent.expression.kind === ts.SyntaxKind.ImportKeyword &&
+        parent.arguments[0] === node)
+    );
+  }
+
+  private isResourceName(node: ts.StringLiteral): boolean {
+    const call = node.parent;
+    return (
+      ts.isCallExpression(call) &&
+      call.arguments[0] === node &&
+      ts.isPropertyAccessExpression(call.expression) &&
+      ["resource", "shallowResource"].includes(call.expression.name.text)
+    );
+  }
+
   private findRoutesGroupCall(node: ts.Node): ts.CallExpression | null {
     let current: ts.Node = node;
     while (current) {
@@ -351,7 +375,7 @@ export class AdonisRoutesDefinitionProvider
     context: ClickContext,
     projectRoot: string,
     sourceFile: ts.SourceFile
-  ): vscode.Location | null {
+  ): vscode.Location | vscode.Location[] | null {
     console.log("Resolving definition for context:", context);
 
     switch (context.type) {
@@ -389,6 +413,37 @@ export class AdonisRoutesDefinitionProvider
         console.log("Resolving controller import path...");
         return this.resolveControllerFromImportPath(
           context.importPath,
+          sourceFile.fileName,
+          projectRoot
+        );
+
+      case "module_import_path": {
+        if (!context.importPath) {
+          console.log("No import path");
+          return null;
+        }
+        console.log("Resolving module import path...");
+        const modulePath = this.importResolver.resolve(
+          context.importPath,
+          sourceFile.fileName,
+          projectRoot
+        );
+        return modulePath
+          ? new vscode.Location(
+              vscode.Uri.file(modulePath),
+              new vscode.Position(0, 0)
+            )
+          : null;
+      }
+
+      case "middleware_name":
+        if (!context.middlewareName) {
+          console.log("No middleware name");
+          return null;
+        }
+        console.log("Resolving named middleware...");
+        return this.resolveMiddlewareDefinition(
+          context.middlewareName,
           projectRoot
         );
 
@@ -404,12 +459,89 @@ export class AdonisRoutesDefinitionProvider
           sourceFile
         );
 
+      case "resource_name":
+        console.log("Resolving resource actions...");
+        return this.resolveResourceActions(
+          sourceFile.fileName,
+          context.line,
+          projectRoot
+        );
+
       default:
         console.log("Unknown context type:", context.type);
         return null;
     }
   }
 
+  private resolveMiddlewareDefinition(
+    middlewareName: string,
+    projectRoot: string
+  ): vscode.Location | null {
+    const middlewarePath = this.middlewareKernel.resolveNamedMiddleware(
+      middlewareName,
+      projectRoot
+    );
+    console.log("Middleware path resolved to:", middlewarePath);
+    if (!middlewarePath) return null;
+
+    return (
+      this.findMethodInControllerFile(middlewarePath, "handle") ||
+      new vscode.Location(
+        vscode.Uri.file(middlewarePath),
+        new vscode.Position(0, 0)
+      )
+    );
+  }
+
+  /**
+   * Resolves every action registered by a router.resource() call to its
+   * controller method, skipping actions the controller does not implement.
+   */
+  private resolveResourceActions(
+    filePath: string,
+    line: number | undefined,
+    projectRoot: string
+  ): vscode.Location[] | null {
+    const routes = this.routeIndex
+      .getRoutesInFile(filePath)
+      .filter((route) => route.resource?.nameRange.start.line === line);
+    const handler = routes[0]?.handler;
+    if (!handler?.controllerName) {
+      console.log("No resource routes found");
+      return null;
+    }
+
+    const controllerPath = this.resolveHandlerController(
+      handler,
+      filePath,
+      projectRoot
+    );
+    if (!controllerPath) {
+      console.log("Controller path not found");
+      return null;
+    }
+
+    const seen = new Set<string>();
+    const locations: vscode.Location[] = [];
+    for (const route of routes) {
+      const action = route.resource!.action;
+      if (seen.has(action)) continue;
+      seen.add(action);
+
+      const location = this.findMethodInControllerFile(controllerPath, action);
+      if (location) locations.push(location);
+    }
+
+    return locations.length > 0
+      ? locations
+      : [
+          new vscode.Location(
+            vscode.Uri.file(controllerPath),
+            new vscode.Position(0, 0)
+          ),
+        ];
+  }
+
   private resolveControllerVariableDefinition(
     variableName: string,
     methodName: string | undefined,
@@ -421,7 +553,7 @@ export class AdonisRoutesDefinitionProvider
     );
 
     // Find the variable declaration in the source file
-    const importPath = this.findControllerImportPath(variableName, sourceFile);
+    const importPath = findControllerImportPath(variableName, sourceFile);
     console.log("Import path found:", importPath);
 
     if (!importPath) {
@@ -432,6 +564,7 @@ export class AdonisRoutesDefinitionProvider
     // Resolve the import path to actual file path
     const location = this.resolveControllerFromImportPath(
       importPath,
+      sourceFile.fileName,
       projectRoot
     );
     if (!location) {
@@ -441,10 +574,6 @@ export class AdonisRoutesDefinitionProvider
 
     // Extract file path from location
     const controllerPath = location.uri.fsPath;
-    const controllerDocument = vscode.workspace.textDocuments.find(
-      (doc) => doc.uri.fsPath === controllerPath
-    );
-    console.log("Controller document found:", !!controllerDocument);
 
     if (!methodName) {
       console.log(
@@ -453,11 +582,12 @@ export class AdonisRoutesDefinitionProvider
       return new vscode.Location(location.uri, new vscode.Position(0, 0));
     }
 
-    // Find method definition (works even if the controller file isn't already open)
+    // Find method definition, following the controller's base classes
     console.log("Finding method in controller...");
-    const methodLocation = controllerDocument
-      ? this.findMethodInController(controllerDocument, methodName)
-      : this.findMethodInControllerFile(controllerPath, methodName);
+    const methodLocation = this.findMethodInControllerFile(
+      controllerPath,
+      methodName
+    );
     console.log("Method location found:", !!methodLocation);
 
     return (
@@ -479,10 +609,10 @@ export class AdonisRoutesDefinitionProvider
     // Try import path resolution first (supports subdirectory controllers)
     if (sourceFile) {
       console.log("Trying import path resolution for method_string...");
-      const importPath = this.findControllerImportPath(controllerName, sourceFile);
+      const importPath = findControllerImportPath(controllerName, sourceFile);
       console.log("Import path found:", importPath);
       if (importPath) {
-        const location = this.resolveControllerFromImportPath(importPath, projectRoot);
+        const location = this.resolveControllerFromImportPath(importPath, sourceFile.fileName, projectRoot);
         console.log("Controller resolved from import path:", location?.uri.fsPath);
         if (location) {
           const controllerPath = location.uri.fsPath;
@@ -529,388 +659,78 @@ export class AdonisRoutesDefinitionProvider
     );
   }
 
-  private resolveControllerPath(
+  /**
+   * Resolves a controller to its file, through its import path when the routes
+   * file declares one and by naming convention otherwise.
+   */
+  resolveControllerFile(
     controllerName: string,
+    importPath: string | undefined,
+    fromFile: string,
     projectRoot: string
   ): string | null {
-    console.log(`Resolving controller path for: ${controllerName}`);
-
-    const imports = this.getPackageImports(projectRoot);
-    console.log("Package imports:", imports);
-
-    const controllersMapping = imports["#controllers/*"];
-    console.log("Controllers mapping:", controllersMapping);
-
-    if (!controllersMapping) {
-      console.log("No #controllers/* mapping found");
-      return null;
-    }
-
-    // The import map often points to "./app/controllers/*.js" even though the source is ".ts".
-    // Use the mapping's directory as the base path.
-    const basePath = path.resolve(
-      projectRoot,
-      path.dirname(String(controllersMapping))
+    return this.routeResolver.resolveControllerFile(
+      controllerName,
+      importPath,
+      fromFile,
+      projectRoot
     );
-    console.log("Base path:", basePath);
-
-    // Convert PascalCase to snake_case (e.g., BannerController -> banner_controller)
-    const snakeCaseName = controllerName
-      .replace(/([a-z])([A-Z])/g, "$1_$2")
-      .toLowerCase();
-    console.log("Converted to snake_case:", snakeCaseName);
-
-    const possiblePaths = [
-      path.join(basePath, `${snakeCaseName}.ts`),
-      path.join(basePath, `${snakeCaseName}.js`),
-      path.join(basePath, controllerName, "index.ts"),
-      path.join(basePath, controllerName, "index.js"),
-      // Also try PascalCase just in case
-      path.join(basePath, `${controllerName}.ts`),
-      path.join(basePath, `${controllerName}.js`),
-    ];
-
-    console.log("Possible paths:", possiblePaths);
-
-    for (const p of possiblePaths) {
-      console.log(`Checking path: ${p}, exists: ${fs.existsSync(p)}`);
-      if (fs.existsSync(p)) {
-        console.log("Found controller file:", p);
-        return p;
-      }
-    }
-
-    console.log("No controller file found");
-    return null;
   }
 
-  private getPackageImports(projectRoot: string): any {
-    const packageJsonPath = path.join(projectRoot, "package.json");
-    const stat = fs.statSync(packageJsonPath);
-    const cacheKey = packageJsonPath;
-
-    if (this.cacheTimestamps.get(cacheKey) !== stat.mtime.getTime()) {
-      try {
-        const content = fs.readFileSync(packageJsonPath, "utf8");
-        const packageJson = JSON.parse(content);
-        this.importsCache.set(cacheKey, packageJson.imports || {});
-        this.cacheTimestamps.set(cacheKey, stat.mtime.getTime());
-      } catch (error) {
-        this.importsCache.set(cacheKey, {});
-      }
-    }
-
-    return this.importsCache.get(cacheKey) || {};
+  resolveHandlerController(
+    handler: HandlerInfo,
+    routesFile: string,
+    projectRoot: string
+  ): string | null {
+    return this.routeResolver.resolveHandlerController(
+      handler,
+      routesFile,
+      projectRoot
+    );
   }
 
-  private findMethodInController(
-    document: vscode.TextDocument,
-    methodName: string
-  ): vscode.Location | null {
-    const sourceFile = ts.createSourceFile(
-      document.fileName,
-      document.getText(),
-      ts.ScriptTarget.Latest,
-      true
+  resolveControllerPath(
+    controllerName: string,
+    projectRoot: string
+  ): string | null {
+    console.log(`Resolving controller path for: ${controllerName}`);
+    return this.routeResolver.resolveControllerPath(
+      controllerName,
+      projectRoot
     );
+  }
 
-    const candidates: {
-      node: ts.MethodDeclaration | ts.FunctionDeclaration;
-      priority: number;
-    }[] = [];
-
-    function visit(node: ts.Node) {
-      if (
-        ts.isMethodDeclaration(node) &&
-        node.name &&
-        ts.isIdentifier(node.name) &&
-        node.name.text === methodName
-      ) {
-        let priority = 2; // Default priority
-
-        // Check if it's in export default class
-        let parent: ts.Node = node.parent;
-        while (parent) {
-          if (
-            ts.isClassDeclaration(parent) &&
-            parent.modifiers?.some(
-              (m) => m.kind === ts.SyntaxKind.ExportKeyword
-            ) &&
-            parent.modifiers?.some(
-              (m) => m.kind === ts.SyntaxKind.DefaultKeyword
-            )
-          ) {
-            priority = 1; // Highest priority
-            break;
-          }
-          if (ts.isClassDeclaration(parent)) {
-            priority = 2; // Other class
-            break;
-          }
-          parent = parent.parent;
-        }
-
-        candidates.push({ node, priority });
-      }
-
-      if (
-        ts.isFunctionDeclaration(node) &&
-        node.name &&
-        ts.isIdentifier(node.name) &&
-        node.name.text === methodName &&
-        node.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
-      ) {
-        candidates.push({ node, priority: 3 }); // Exported function
-      }
-
-      ts.forEachChild(node, visit);
-    }
-
-    visit(sourceFile);
-
-    if (candidates.length === 0) return null;
-
-    // Sort by priority (lower number = higher priority)
-    candidates.sort((a, b) => a.priority - b.priority);
-
-    const bestMatch = candidates[0];
-    if (!bestMatch.node.name) return null;
-    const start = document.positionAt(bestMatch.node.name.getStart(sourceFile));
-    const end = document.positionAt(bestMatch.node.name.getEnd());
-    return new vscode.Location(document.uri, new vscode.Range(start, end));
+  getPackageImports(projectRoot: string): Record<string, any> {
+    return this.importResolver.getPackageImports(projectRoot);
   }
 
-  private findMethodInControllerFile(
+  findMethodInControllerFile(
     controllerPath: string,
     methodName: string
   ): vscode.Location | null {
-    try {
-      const text = fs.readFileSync(controllerPath, "utf8");
-      const sourceFile = ts.createSourceFile(
-        controllerPath,
-        text,
-        ts.ScriptTarget.Latest,
-        true
-      );
-
-      const best = this.findBestMethodNameNode(sourceFile, methodName);
-      if (!best) return null;
-
-      const startLc = ts.getLineAndCharacterOfPosition(
-        sourceFile,
-        best.getStart(sourceFile)
-      );
-      const endLc = ts.getLineAndCharacterOfPosition(sourceFile, best.getEnd());
-      const start = new vscode.Position(startLc.line, startLc.character);
-      const end = new vscode.Position(endLc.line, endLc.character);
-
-      return new vscode.Location(
-        vscode.Uri.file(controllerPath),
-        new vscode.Range(start, end)
-      );
-    } catch (error) {
-      console.error(
-        "Failed to find method in controller file:",
-        controllerPath,
-        error
-      );
-      return null;
-    }
-  }
-
-  private findBestMethodNameNode(
-    sourceFile: ts.SourceFile,
-    methodName: string
-  ): ts.Identifier | null {
-    const candidates: { node: ts.Identifier; priority: number }[] = [];
-
-    const visit = (node: ts.Node) => {
-      if (
-        ts.isMethodDeclaration(node) &&
-        node.name &&
-        ts.isIdentifier(node.name) &&
-        node.name.text === methodName
-      ) {
-        let priority = 2;
-
-        let parent: ts.Node = node.parent;
-        while (parent) {
-          if (
-            ts.isClassDeclaration(parent) &&
-            parent.modifiers?.some(
-              (m) => m.kind === ts.SyntaxKind.ExportKeyword
-            ) &&
-            parent.modifiers?.some(
-              (m) => m.kind === ts.SyntaxKind.DefaultKeyword
-            )
-          ) {
-            priority = 1;
-            break;
-          }
-          if (ts.isClassDeclaration(parent)) {
-            priority = 2;
-            break;
-          }
-          parent = parent.parent;
-        }
-
-        candidates.push({ node: node.name, priority });
-      }
-
-      if (
-        ts.isPropertyDeclaration(node) &&
-        node.name &&
-        ts.isIdentifier(node.name) &&
-        node.name.text === methodName
-      ) {
-        candidates.push({ node: node.name, priority: 2 });
-      }
-
-      if (
-        ts.isFunctionDeclaration(node) &&
-        node.name &&
-        ts.isIdentifier(node.name) &&
-        node.name.text === methodName &&
-        node.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
-      ) {
-        candidates.push({ node: node.name, priority: 3 });
-      }
-
-      ts.forEachChild(node, visit);
-    };
-
-    visit(sourceFile);
-    if (candidates.length === 0) return null;
-
-    candidates.sort((a, b) => a.priority - b.priority);
-    return candidates[0].node;
+    const location = this.routeResolver.findMethodInControllerFile(
+      controllerPath,
+      methodName
+    );
+    return location && toLocation(location);
   }
 
-  private resolveControllerFromImportPath(
+  resolveControllerFromImportPath(
     importPath: string,
+    fromFile: string,
     projectRoot: string
   ): vscode.Location | null {
-    const imports = this.getPackageImports(projectRoot);
-    const mapping = imports[importPath];
-
-    // 1) Exact mapping in package.json imports
-    if (mapping) {
-      const resolvedPath = path.resolve(projectRoot, mapping);
-      const possiblePaths = [
-        resolvedPath.replace(".js", ".ts"),
-        resolvedPath,
-        resolvedPath.replace(/\.ts$/, "/index.ts"),
-        resolvedPath.replace(/\.js$/, "/index.js"),
-      ];
-
-      for (const p of possiblePaths) {
-        if (fs.existsSync(p)) {
-          return new vscode.Location(
-            vscode.Uri.file(p),
-            new vscode.Position(0, 0)
-          );
-        }
-      }
-
-      return null;
-    }
-
-    // 2) Wildcard mapping like "#controllers/*": "./app/controllers/*.js"
-    if (importPath.startsWith("#controllers/")) {
-      const controllersMapping = imports["#controllers/*"];
-      if (!controllersMapping) return null;
-      const controllerModule = importPath.substring("#controllers/".length);
-
-      const mappingPattern = String(controllersMapping);
-
-      // If mapping contains a "*" pattern (e.g. ./app/controllers/*.js), replace it with the module.
-      if (mappingPattern.includes("*")) {
-        const mapped = mappingPattern.replace("*", controllerModule);
-        const resolvedPath = path.resolve(projectRoot, mapped);
-        const candidates = [
-          resolvedPath.replace(".js", ".ts"),
-          resolvedPath,
-          resolvedPath.replace(/\.ts$/, "/index.ts"),
-          resolvedPath.replace(/\.js$/, "/index.js"),
-        ];
-
-        for (const p of candidates) {
-          if (fs.existsSync(p)) {
-            return new vscode.Location(
-              vscode.Uri.file(p),
-              new vscode.Position(0, 0)
-            );
-          }
-        }
-
-        return null;
-      }
-
-      // Fallback: treat the mapping as a directory-ish base
-      const basePath = path.resolve(projectRoot, path.dirname(mappingPattern));
-      const candidates = [
-        path.join(basePath, `${controllerModule}.ts`),
-        path.join(basePath, `${controllerModule}.js`),
-        path.join(basePath, controllerModule, "index.ts"),
-        path.join(basePath, controllerModule, "index.js"),
-      ];
-
-      for (const p of candidates) {
-        if (fs.existsSync(p)) {
-          return new vscode.Location(
-            vscode.Uri.file(p),
-            new vscode.Position(0, 0)
-          );
-        }
-      }
-    }
-
-    return null;
-  }
-
-  private findControllerImportPath(
-    variableName: string,
-    sourceFile: ts.SourceFile
-  ): string | null {
-    function visit(node: ts.Node): string | null {
-      // Look for variable declarations
-      if (
-        ts.isVariableDeclaration(node) &&
-        ts.isIdentifier(node.name) &&
-        node.name.text === variableName
-      ) {
-        if (node.initializer) {
-          // Handle arrow function: () => import('#controllers/...')
-          if (ts.isArrowFunction(node.initializer) && node.initializer.body) {
-            const body = node.initializer.body;
-            if (
-              ts.isCallExpression(body) &&
-              body.expression.kind === ts.SyntaxKind.ImportKeyword
-            ) {
-              const args = body.arguments;
-              if (args.length > 0 && ts.isStringLiteral(args[0])) {
-                return args[0].text;
-              }
-            }
-          }
-          // Handle direct import: import('#controllers/...')
-          else if (
-            ts.isCallExpression(node.initializer) &&
-            node.initializer.expression.kind === ts.SyntaxKind.ImportKeyword
-          ) {
-            const args = node.initializer.arguments;
-            if (args.length > 0 && ts.isStringLiteral(args[0])) {
-              return args[0].text;
-            }
-          }
-        }
-      }
-
-      // Continue searching
-      return ts.forEachChild(node, visit) || null;
-    }
+    const controllerPath = this.routeResolver.resolveControllerFromImportPath(
+      importPath,
+      fromFile,
+      projectRoot
+    );
+    if (!controllerPath) return null;
 
-    return visit(sourceFile);
+    return new vscode.Location(
+      vscode.Uri.file(controllerPath),
+      new vscode.Position(0, 0)
+    );
   }
 
   private resolveRoutesModule(
@@ -918,40 +738,17 @@ export class AdonisRoutesDefinitionProvider
     projectRoot: string,
     sourceFile: ts.SourceFile
   ): vscode.Location | null {
-    // First check if it's imported
-    const imports = this.getPackageImports(projectRoot);
-    const routesMapping = imports["#routes/*"];
-    if (routesMapping) {
-      const basePath = path.resolve(
-        projectRoot,
-        routesMapping.replace("/*", "")
-      );
-      const possiblePaths = [
-        path.join(basePath, `${moduleName}.ts`),
-        path.join(basePath, `${moduleName}.js`),
-      ];
-
-      for (const p of possiblePaths) {
-        if (fs.existsSync(p)) {
-          return new vscode.Location(
-            vscode.Uri.file(p),
-            new vscode.Position(0, 0)
-          );
-        }
-      }
-    }
-
-    // Check local file
-    const currentDir = path.dirname(sourceFile.fileName);
-    const localPath = path.join(currentDir, `${moduleName}.ts`);
-    if (fs.existsSync(localPath)) {
-      return new vscode.Location(
-        vscode.Uri.file(localPath),
-        new vscode.Position(0, 0)
-      );
-    }
-
-    return null;
+    const modulePath = this.routeResolver.resolveRoutesModule(
+      moduleName,
+      projectRoot,
+      sourceFile
+    );
+    return modulePath
+      ? new vscode.Location(
+          vscode.Uri.file(modulePath),
+          new vscode.Position(0, 0)
+        )
+      : null;
   }
 }
 
@@ -960,17 +757,16 @@ interface ClickContext {
     | "controller_variable"
     | "method_string"
     | "controller_import_path"
-    | "routes_module";
+    | "module_import_path"
+    | "routes_module"
+    | "resource_name"
+    | "middleware_name";
   variableName?: string;
   controllerName?: string;
   methodName?: string;
   importPath?: string;
   moduleName?: string;
-}
-
-interface HandlerInfo {
-  type: "controller" | "controller_variable";
-  controllerName?: string;
-  variableName?: string;
-  methodName?: string;
+  resourceName?: string;
+  middlewareName?: string;
+  line?: number;
 }
@@ -1,34 +1,199 @@
 import * as vscode from 'vscode';
 import { AdonisRoutesDefinitionProvider } from './definitionProvider';
+import { ControllerParamCompletionProvider } from './controllerParamCompletionProvider';
+import { ControllerReferenceProvider } from './controllerReferenceProvider';
+import { ImportResolver } from './importResolver';
+import { MiddlewareKernel } from './middlewareKernel';
+import { ResourceCodeLensProvider } from './resourceCodeLensProvider';
+import { RouteCompletionProvider } from './routeCompletionProvider';
+import { RouteChecker } from './routeChecks';
+import { RouteCodeActionProvider, convertControllerImports } from './routeCodeActions';
+import { RouteDiagnostics } from './routeDiagnostics';
+import { exportRouteTable } from './routeExportCommand';
+import { RouteHoverProvider } from './routeHoverProvider';
+import { RouteIndex } from './routeIndex';
+import { RouteNameProvider } from './routeNameProvider';
+import { openRoute, openRouteHandler } from './routeNavigation';
+import { RouteRecord } from './routeParser';
+import { RouteQuickPick } from './routeQuickPick';
+import { RouteRenameProvider } from './routeRenameProvider';
+import { RouteResolver } from './routeResolver';
+import { RouteTargets } from './routeTargets';
+import { RouteTestIndex, TEST_FILES_GLOB } from './routeTestIndex';
+import { RouteTestProvider, showUntestedRoutes } from './routeTestProvider';
+import { RouteTreeNode, RoutesTreeProvider } from './routesTreeProvider';
+import { TypeScriptProjects } from './typeScriptProjects';
+import { ValidatorDefinitionProvider } from './validatorDefinitionProvider';
+import { ValidatorResolver } from './validators';
+
+const LANGUAGE_SERVICE_SETTING = 'adonisRoutesGoto.useTypeScriptLanguageService';
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('AdonisJS Routes Goto extension activated');
 
-  const provider = new AdonisRoutesDefinitionProvider();
+  // Optional resolution through the TypeScript compiler, see the setting
+  const typeScriptProjects = new TypeScriptProjects();
+  const readLanguageServiceSetting = () =>
+    typeScriptProjects.setEnabled(vscode.workspace.getConfiguration().get(LANGUAGE_SERVICE_SETTING, false));
+  readLanguageServiceSetting();
+  context.subscriptions.push(typeScriptProjects);
+
+  const importResolver = new ImportResolver(typeScriptProjects);
+  const middlewareKernel = new MiddlewareKernel(importResolver);
+  const routeIndex = new RouteIndex(importResolver);
+  context.subscriptions.push(routeIndex);
+  routeIndex.initialize().then(
+    () => console.log('Route index ready:', routeIndex.getRoutes().length, 'routes'),
+    (error) => console.error('Failed to build route index:', error)
+  );
+
+  const routeResolver = new RouteResolver(importResolver, typeScriptProjects);
+  const provider = new AdonisRoutesDefinitionProvider(routeIndex, routeResolver, importResolver, middlewareKernel);
 
+  // Routes files are configurable and may live anywhere (adonisrc.ts
+  // preloads), so providers are registered for every TypeScript file and
+  // ignore the files the route index does not know
+  const routesSelector = { language: 'typescript', scheme: 'file' };
+  context.subscriptions.push(vscode.languages.registerDefinitionProvider(routesSelector, provider));
+
+  console.log('Definition providers registered for routes files');
+
+  // Method name and #alias/ path completion in routes files, and
+  // CodeLens listing the actions missing from resource controllers
+  const completionProvider = new RouteCompletionProvider(routeIndex, routeResolver, provider, importResolver);
+  const resourceCodeLensProvider = new ResourceCodeLensProvider(routeIndex, provider);
   context.subscriptions.push(
-    vscode.languages.registerDefinitionProvider(
-      { language: 'typescript', pattern: '**/routes/**/*.ts' },
-      provider
+    vscode.languages.registerCompletionItemProvider(routesSelector, completionProvider, "'", '"', '/'),
+    vscode.languages.registerCodeLensProvider(routesSelector, resourceCodeLensProvider)
+  );
+
+  const routeTargets = new RouteTargets(routeIndex, provider);
+  const controllerWatcher = vscode.workspace.createFileSystemWatcher('**/controllers/**/*.ts');
+  context.subscriptions.push(
+    controllerWatcher,
+    controllerWatcher.onDidCreate(() => routeTargets.invalidate()),
+    controllerWatcher.onDidChange(() => routeTargets.invalidate()),
+    controllerWatcher.onDidDelete(() => routeTargets.invalidate())
+  );
+
+  // Hover cards on route handlers, listing the validators of the method
+  const validatorResolver = new ValidatorResolver(importResolver, routeResolver);
+  const hoverProvider = new RouteHoverProvider(routeIndex, routeResolver, routeTargets, validatorResolver);
+  context.subscriptions.push(vscode.languages.registerHoverProvider(routesSelector, hoverProvider));
+
+  // Diagnostics for handlers whose controller or method cannot be resolved
+  const routeDiagnostics = new RouteDiagnostics(routeIndex, new RouteChecker(routeResolver, middlewareKernel));
+  const kernelWatcher = vscode.workspace.createFileSystemWatcher('**/start/kernel.ts');
+  context.subscriptions.push(
+    routeDiagnostics,
+    kernelWatcher,
+    kernelWatcher.onDidCreate(() => routeDiagnostics.refresh()),
+    kernelWatcher.onDidChange(() => routeDiagnostics.refresh()),
+    kernelWatcher.onDidDelete(() => routeDiagnostics.refresh()),
+    controllerWatcher.onDidCreate(() => routeDiagnostics.refresh()),
+    controllerWatcher.onDidChange(() => routeDiagnostics.refresh()),
+    controllerWatcher.onDidDelete(() => routeDiagnostics.refresh())
+  );
+
+  // Quick fixes creating the controllers and methods routes point at, and
+  // rewriting static controller imports into lazy ones
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+      routesSelector,
+      new RouteCodeActionProvider(routeIndex, routeResolver, importResolver),
+      { providedCodeActionKinds: RouteCodeActionProvider.providedCodeActionKinds }
+    ),
+    vscode.commands.registerCommand('adonisRoutesGoto.convertControllerImports', () =>
+      convertControllerImports(routeIndex)
     )
   );
 
+  // Keep the TypeScript programs in sync with the files on disk
+  const sourceWatcher = vscode.workspace.createFileSystemWatcher('**/*.{ts,tsx,mts,cts,js,jsx,json}');
   context.subscriptions.push(
-    vscode.languages.registerDefinitionProvider(
-      { language: 'typescript', pattern: '**/routes/*.ts' },
-      provider
+    sourceWatcher,
+    sourceWatcher.onDidChange((uri) => typeScriptProjects.fileChanged(uri.fsPath)),
+    sourceWatcher.onDidCreate((uri) => typeScriptProjects.fileChanged(uri.fsPath, true)),
+    sourceWatcher.onDidDelete((uri) => typeScriptProjects.fileChanged(uri.fsPath, true)),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (!event.affectsConfiguration(LANGUAGE_SERVICE_SETTING)) return;
+      readLanguageServiceSetting();
+      routeTargets.invalidate();
+      routeIndex.refresh();
+    })
+  );
+
+  // Reverse navigation from controller methods to the routes using them, and
+  // from validators used in controllers to their vine.compile() definition
+  const referenceProvider = new ControllerReferenceProvider(routeIndex, routeTargets);
+  const controllerSelector = { language: 'typescript', pattern: '**/controllers/**/*.ts' };
+  context.subscriptions.push(
+    vscode.languages.registerReferenceProvider(controllerSelector, referenceProvider),
+    vscode.languages.registerCodeLensProvider(controllerSelector, referenceProvider),
+    vscode.languages.registerCompletionItemProvider(
+      controllerSelector,
+      new ControllerParamCompletionProvider(routeTargets),
+      '.',
+      "'",
+      '"'
+    ),
+    vscode.languages.registerDefinitionProvider(controllerSelector, new ValidatorDefinitionProvider(validatorResolver))
+  );
+
+  // Keep route tuples and controller method names in sync on rename
+  const renameProvider = new RouteRenameProvider(routeIndex, routeTargets, provider, importResolver);
+  context.subscriptions.push(
+    vscode.languages.registerRenameProvider(routesSelector, renameProvider),
+    vscode.workspace.onWillRenameFiles((event) =>
+      event.waitUntil(renameProvider.provideFileRenameEdits(event.files))
     )
   );
 
-  // Register for start/routes.ts file
+  // Route names in URL builders, redirects and Edge templates
+  const routeNameProvider = new RouteNameProvider(routeIndex);
+  context.subscriptions.push(routeNameProvider);
+  for (const selector of [{ language: 'typescript' }, { pattern: '**/*.edge' }]) {
+    context.subscriptions.push(
+      vscode.languages.registerDefinitionProvider(selector, routeNameProvider),
+      vscode.languages.registerHoverProvider(selector, routeNameProvider),
+      vscode.languages.registerCompletionItemProvider(selector, routeNameProvider, "'", '"', '`')
+    );
+  }
+  routeNameProvider.refresh();
+
+  // Routes tree in the Explorer sidebar
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider('adonisRoutesGoto.routes', new RoutesTreeProvider(routeIndex, routeTargets, validatorResolver)),
+    vscode.commands.registerCommand('adonisRoutesGoto.openRoute', (route: RouteRecord) => openRoute(route)),
+    vscode.commands.registerCommand('adonisRoutesGoto.openRouteHandler', (node: RouteTreeNode | RouteRecord) =>
+      openRouteHandler('route' in node ? node.route : (node as RouteRecord), routeTargets)
+    ),
+    vscode.commands.registerCommand('adonisRoutesGoto.refreshRoutes', () => routeIndex.refresh()),
+    vscode.commands.registerCommand('adonisRoutesGoto.exportRoutes', () => exportRouteTable(routeIndex, routeTargets))
+  );
+
+  // Functional tests requesting each route, and navigation from the tests
+  const routeTestIndex = new RouteTestIndex(routeIndex);
+  context.subscriptions.push(routeTestIndex);
+  routeTestIndex.initialize().catch((error) => console.error('Failed to index functional tests:', error));
+  const routeTestProvider = new RouteTestProvider(routeIndex, routeTestIndex, routeTargets);
   context.subscriptions.push(
+    vscode.languages.registerCodeLensProvider(routesSelector, routeTestProvider),
     vscode.languages.registerDefinitionProvider(
-      { language: 'typescript', pattern: '**/start/routes.ts' },
-      provider
+      { language: 'typescript', pattern: TEST_FILES_GLOB },
+      routeTestProvider
+    ),
+    vscode.commands.registerCommand('adonisRoutesGoto.showUntestedRoutes', () =>
+      showUntestedRoutes(routeIndex, routeTestIndex)
     )
   );
 
-  console.log('Definition providers registered for routes files');
+  // "Go to Route" quick pick
+  const routeQuickPick = new RouteQuickPick(routeIndex, routeTargets);
+  context.subscriptions.push(
+    vscode.commands.registerCommand('adonisRoutesGoto.goToRoute', () => routeQuickPick.show()),
+    vscode.commands.registerCommand('adonisRoutesGoto.goToRouteHandler', () => routeQuickPick.acceptHandler())
+  );
 }
 
 export function deactivate() {}
\ No newline at end of file
@@ -0,0 +1,380 @@
+import * as ts from "typescript";
+import * as path from "path";
+import * as fs from "fs";
+import { isAdonisAppRoot } from "./adonisRc";
+import { TypeScriptProjects } from "./typeScriptProjects";
+
+/**
+ * Conditions tried when a `package.json#imports` target is a conditional
+ * object. Anything else (e.g. "browser") is ignored.
+ */
+const IMPORT_CONDITIONS = [
+  "source",
+  "development",
+  "types",
+  "import",
+  "node",
+  "require",
+  "default",
+];
+
+/** Compiled extensions mapped back to their TypeScript sources. */
+const SOURCE_EXTENSIONS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx"],
+  ".mjs": [".mts"],
+  ".cjs": [".cts"],
+  ".jsx": [".tsx"],
+};
+
+interface CachedConfig<T> {
+  mtime: number;
+  value: T;
+}
+
+interface TsconfigPaths {
+  basePath: string;
+  paths: Record<string, string[]>;
+}
+
+/**
+ * Finds the AdonisJS app a file belongs to: the nearest directory with an
+ * `adonisrc.ts`, so that packages nested in an app or apps nested in a
+ * monorepo resolve to the right root. Falls back to the nearest directory
+ * with a `package.json`.
+ */
+export function findProjectRoot(filePath: string): string | null {
+  let packageRoot: string | null = null;
+  let currentDir = path.dirname(filePath);
+  while (currentDir !== path.dirname(currentDir)) {
+    if (isAdonisAppRoot(currentDir)) {
+      return currentDir;
+    }
+    const packageJsonPath = path.join(currentDir, "package.json");
+    if (!packageRoot && fs.existsSync(packageJsonPath)) {
+      packageRoot = currentDir;
+    }
+    currentDir = path.dirname(currentDir);
+  }
+  return packageRoot;
+}
+
+/**
+ * Resolves module specifiers the way a TypeScript AdonisJS project does:
+ * Node subpath imports from `package.json#imports` (`#controllers/*`,
+ * `#middleware/*`, ...), `tsconfig.json` `paths`, and relative paths, mapping
+ * compiled `.js` targets back to their `.ts` sources. When the TypeScript
+ * projects are enabled, the compiler's own module resolution is tried first.
+ */
+export class ImportResolver {
+  private packageImports = new Map<string, CachedConfig<Record<string, any>>>();
+  private tsconfigPaths = new Map<string, CachedConfig<TsconfigPaths | null>>();
+
+  constructor(private typeScriptProjects?: TypeScriptProjects) {}
+
+  /**
+   * Resolves a specifier to an existing file, or null when it cannot be found.
+   */
+  resolve(
+    specifier: string,
+    fromFile: string,
+    projectRoot = findProjectRoot(fromFile)
+  ): string | null {
+    const compilerResolved = this.typeScriptProjects?.resolveModule(
+      specifier,
+      fromFile
+    );
+    if (compilerResolved) return compilerResolved;
+
+    if (specifier.startsWith(".")) {
+      return this.findSourceFile(
+        path.resolve(path.dirname(fromFile), specifier)
+      );
+    }
+    if (!projectRoot) return null;
+
+    if (specifier.startsWith("#")) {
+      const resolved = this.resolvePackageImport(specifier, projectRoot);
+      if (resolved) return resolved;
+    }
+
+    return this.resolveTsconfigPath(specifier, projectRoot);
+  }
+
+  /**
+   * Works out the TypeScript source a relative or `package.json#imports`
+   * specifier points to, whether or not the file exists yet. Used to create
+   * missing modules at the path an import expects them.
+   */
+  getSourcePath(
+    specifier: string,
+    fromFile: string,
+    projectRoot = findProjectRoot(fromFile)
+  ): string | null {
+    let targetPath: string | null = null;
+    if (specifier.startsWith(".")) {
+      targetPath = path.resolve(path.dirname(fromFile), specifier);
+    } else if (specifier.startsWith("#") && projectRoot) {
+      const imports = this.getPackageImports(projectRoot);
+      const pattern = Object.keys(imports)
+        .filter((key) => key.includes("*"))
+        .sort((a, b) => b.indexOf("*") - a.indexOf("*") || b.length - a.length)
+        .find((key) => matchPattern(key, specifier) !== null);
+      const target = pattern && this.pickTargets(imports[pattern])[0];
+      if (pattern && target?.includes("*")) {
+        targetPath = path.resolve(
+          projectRoot,
+          target.split("*").join(matchPattern(pattern, specifier)!)
+        );
+      }
+    }
+    if (!targetPath) return null;
+
+    const extension = path.extname(targetPath);
+    const sourceExtension = SOURCE_EXTENSIONS[extension]?.[0];
+    if (sourceExtension) {
+      return targetPath.slice(0, -extension.length) + sourceExtension;
+    }
+    return extension ? targetPath : `${targetPath}.ts`;
+  }
+
+  getPackageImports(projectRoot: string): Record<string, any> {
+    const packageJsonPath = path.join(projectRoot, "package.json");
+    return this.readCached(this.packageImports, packageJsonPath, {}, (text) => {
+      const packageJson = JSON.parse(text);
+      return packageJson.imports || {};
+    });
+  }
+
+  /**
+   * Returns the directory a wildcard subpath import (e.g. `#controllers/*`)
+   * maps to, or null when the alias is not declared.
+   */
+  getWildcardBaseDir(alias: string, projectRoot: string): string | null {
+    const target = this.pickTargets(
+      this.getPackageImports(projectRoot)[alias]
+    )[0];
+    if (!target) return null;
+
+    const base = target.includes("*")
+      ? target.slice(0, target.indexOf("*"))
+      : path.dirname(target);
+    return path.resolve(projectRoot, base);
+  }
+
+  private resolvePackageImport(
+    specifier: string,
+    projectRoot: string
+  ): string | null {
+    const imports = this.getPackageImports(projectRoot);
+
+    // 1) Exact mapping
+    if (Object.prototype.hasOwnProperty.call(imports, specifier)) {
+      return this.resolveTargets(
+        this.pickTargets(imports[specifier]),
+        "",
+        projectRoot
+      );
+    }
+
+    // 2) Wildcard patterns, the longest matching prefix first (as Node does)
+    const patterns = Object.keys(imports)
+      .filter((key) => key.includes("*"))
+      .sort((a, b) => b.indexOf("*") - a.indexOf("*") || b.length - a.length);
+
+    for (const pattern of patterns) {
+      const match = matchPattern(pattern, specifier);
+      if (match === null) continue;
+
+      const targets = this.pickTargets(imports[pattern]);
+      const resolved = this.resolveTargets(targets, match, projectRoot);
+      if (resolved) return resolved;
+
+      // Targets without a "*" are treated as a directory-ish base
+      for (const target of targets.filter((t) => !t.includes("*"))) {
+        const basePath = path.resolve(projectRoot, path.dirname(target));
+        const fallback = this.findSourceFile(path.join(basePath, match));
+        if (fallback) return fallback;
+      }
+    }
+
+    return null;
+  }
+
+  private resolveTsconfigPath(
+    specifier: string,
+    projectRoot: string
+  ): string | null {
+    const config = this.getTsconfigPaths(projectRoot);
+    if (!config) return null;
+
+    const patterns = Object.keys(config.paths).sort(
+      (a, b) => b.indexOf("*") - a.indexOf("*") || b.length - a.length
+    );
+    for (const pattern of patterns) {
+      const match = pattern.includes("*")
+        ? matchPattern(pattern, specifier)
+        : pattern === specifier
+        ? ""
+        : null;
+      if (match === null) continue;
+
+      for (const target of config.paths[pattern]) {
+        const resolved = this.findSourceFile(
+          path.resolve(config.basePath, target.split("*").join(match))
+        );
+        if (resolved) return resolved;
+      }
+    }
+
+    return null;
+  }
+
+  private getTsconfigPaths(projectRoot: string): TsconfigPaths | null {
+    const tsconfigPath = path.join(projectRoot, "tsconfig.json");
+    return this.readCached(this.tsconfigPaths, tsconfigPath, null, () => {
+      const { config, error } = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+      if (error || !config) return null;
+
+      // Let TypeScript follow "extends" and work out the paths base directory
+      const parsed = ts.parseJsonConfigFileContent(
+        config,
+        ts.sys,
+        projectRoot,
+        undefined,
+        tsconfigPath
+      );
+      const { paths, baseUrl, pathsBasePath } = parsed.options;
+      if (!paths) return null;
+
+      return {
+        basePath: baseUrl || (pathsBasePath as string) || projectRoot,
+        paths,
+      };
+    });
+  }
+
+  /**
+   * Flattens an imports target (string, fallback array or conditional
+   * object) into the list of candidate paths, in preference order.
+   */
+  private pickTargets(target: unknown): string[] {
+    if (typeof target === "string") return [target];
+    if (Array.isArray(target)) {
+      return target.flatMap((entry) => this.pickTargets(entry));
+    }
+    if (target && typeof target === "object") {
+      return Object.entries(target as Record<string, unknown>)
+        .filter(([condition]) => IMPORT_CONDITIONS.includes(condition))
+        .flatMap(([, entry]) => this.pickTargets(entry));
+    }
+    return [];
+  }
+
+  private resolveTargets(
+    targets: string[],
+    match: string,
+    projectRoot: string
+  ): string | null {
+    const candidates = targets
+      .filter((target) => match === "" || target.includes("*"))
+      .map((target) =>
+        path.resolve(projectRoot, target.split("*").join(match))
+      );
+
+    // Declaration files only describe a module; prefer real sources
+    for (const candidate of candidates.filter((c) => !isDeclarationFile(c))) {
+      const resolved = this.findSourceFile(candidate);
+      if (resolved) return resolved;
+    }
+    for (const candidate of candidates.filter(isDeclarationFile)) {
+      if (fs.existsSync(candidate)) return candidate;
+    }
+    return null;
+  }
+
+  /**
+   * Finds the file a resolved path refers to, preferring TypeScript sources
+   * over the compiled output the import map usually points to.
+   */
+  private findSourceFile(resolvedPath: string): string | null {
+    const extension = path.extname(resolvedPath);
+    const withoutExtension = resolvedPath.slice(
+      0,
+      resolvedPath.length - extension.length
+    );
+
+    const candidates = [
+      ...(SOURCE_EXTENSIONS[extension] || []).map(
+        (sourceExtension) => withoutExtension + sourceExtension
+      ),
+      resolvedPath,
+      `${resolvedPath}.ts`,
+      `${resolvedPath}.js`,
+      path.join(extension ? withoutExtension : resolvedPath, "index.ts"),
+      path.join(extension ? withoutExtension : resolvedPath, "index.js"),
+    ];
+
+    for (const candidate of candidates) {
+      if (isFile(candidate)) return candidate;
+    }
+    return null;
+  }
+
+  private readCached<T>(
+    cache: Map<string, CachedConfig<T>>,
+    filePath: string,
+    fallback: T,
+    read: (text: string) => T
+  ): T {
+    let mtime: number;
+    try {
+      mtime = fs.statSync(filePath).mtime.getTime();
+    } catch {
+      return fallback;
+    }
+
+    const cached = cache.get(filePath);
+    if (cached && cached.mtime === mtime) {
+      return cached.value;
+    }
+
+    let value = fallback;
+    try {
+      value = read(fs.readFileSync(filePath, "utf8"));
+    } catch (error) {
+      console.error("Failed to read config file:", filePath, error);
+    }
+    cache.set(filePath, { mtime, value });
+    return value;
+  }
+}
+
+/**
+ * Matches a specifier against a pattern with a single "*" and returns the
+ * part matched by the wildcard, or null when it does not match.
+ */
+function matchPattern(pattern: string, specifier: string): string | null {
+  const starIndex = pattern.indexOf("*");
+  const prefix = pattern.slice(0, starIndex);
+  const suffix = pattern.slice(starIndex + 1);
+  if (
+    specifier.length >= prefix.length + suffix.length &&
+    specifier.startsWith(prefix) &&
+    specifier.endsWith(suffix)
+  ) {
+    return specifier.slice(prefix.length, specifier.length - suffix.length);
+  }
+  return null;
+}
+
+function isDeclarationFile(filePath: string): boolean {
+  return /\.d\.[cm]?ts$/.test(filePath);
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * VS Code-independent entry point: parses routes files, resolves handlers to
+ * controller files and checks them, with plain file paths and ranges.
+ */
+export {
+  ADONISRC_FILE,
+  isAdonisAppRoot,
+  parsePreloads,
+  readPreloadFiles,
+} from "./adonisRc";
+export {
+  EagerControllerImport,
+  findEagerControllerImports,
+  hasLazyControllerImports,
+  planLazyImportConversion,
+} from "./controllerImports";
+export {
+  TextEdit,
+  createControllerSource,
+  getConventionalController,
+  planControllerImport,
+  planMethodInsertion,
+} from "./controllerScaffold";
+export { ImportResolver, findProjectRoot } from "./importResolver";
+export { MiddlewareKernel } from "./middlewareKernel";
+export {
+  DIAGNOSTIC_SOURCE,
+  RouteChecker,
+  RouteDiagnosticCode,
+  RouteProblem,
+} from "./routeChecks";
+export {
+  RouteConflict,
+  RouteConflictKind,
+  findRouteConflicts,
+  sortByRegistrationOrder,
+} from "./routeConflicts";
+export {
+  RouteExportFormat,
+  RouteTableEntry,
+  createRouteTableEntry,
+  formatRouteTable,
+} from "./routeExport";
+export { formatHandler, formatRoute } from "./routeFormat";
+export {
+  ParsedRoutesFile,
+  RouteGroup,
+  RouteHandler,
+  RouteParam,
+  RouteRecord,
+  SourcePosition,
+  SourceRange,
+  findControllerImportPath,
+  parseRoutesFile,
+  parseRoutesSource,
+} from "./routeParser";
+export {
+  RoutesFile,
+  RoutesProject,
+  findRoutesFiles,
+  loadRoutesProject,
+} from "./routeProject";
+export {
+  ControllerClass,
+  RouteResolver,
+  SourceLocation,
+  findBestMethodNameNode,
+} from "./routeResolver";
+export {
+  TestRequest,
+  findTestRequests,
+  matchTestRequest,
+} from "./routeTests";
+export { TypeScriptProjects } from "./typeScriptProjects";
+export {
+  MethodValidator,
+  ValidatorDefinition,
+  ValidatorResolver,
+  ValidatorUsage,
+  findValidatorUsages,
+} from "./validators";
@@ -0,0 +1,219 @@
+import * as ts from "typescript";
+import * as fs from "fs";
+import * as path from "path";
+import { ImportResolver } from "./importResolver";
+import { SourceRange, getLazyImportPath, getRange } from "./routeParser";
+
+export interface KernelMiddlewareEntry {
+  name?: string;
+  importPath?: string;
+  range: SourceRange;
+}
+
+export interface KernelMiddleware {
+  filePath: string;
+  /** Middleware registered through `router.named({...})`, keyed by name. */
+  named: Map<string, KernelMiddlewareEntry>;
+  /** Middleware registered through `server.use([...])` and `router.use([...])`. */
+  global: KernelMiddlewareEntry[];
+}
+
+export interface MiddlewareReference {
+  name: string;
+  /** Range of the middleware name only. */
+  range: SourceRange;
+}
+
+interface CachedKernel {
+  mtime: number;
+  kernel: KernelMiddleware;
+}
+
+/**
+ * Reads the middleware registrations of `start/kernel.ts`.
+ */
+export function parseKernelFile(sourceFile: ts.SourceFile): KernelMiddleware {
+  const kernel: KernelMiddleware = {
+    filePath: sourceFile.fileName,
+    named: new Map(),
+    global: [],
+  };
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      ts.isIdentifier(node.expression.expression)
+    ) {
+      const receiver = node.expression.expression.text;
+      const method = node.expression.name.text;
+      const firstArg = node.arguments[0];
+
+      // router.named({ auth: () => import('#middleware/auth_middleware') })
+      if (
+        receiver === "router" &&
+        method === "named" &&
+        firstArg &&
+        ts.isObjectLiteralExpression(firstArg)
+      ) {
+        for (const property of firstArg.properties) {
+          if (!ts.isPropertyAssignment(property) || !property.name) continue;
+          const name = ts.isStringLiteralLike(property.name)
+            ? property.name.text
+            : property.name.getText(sourceFile);
+          kernel.named.set(name, {
+            name,
+            importPath: getLazyImportPath(property.initializer),
+            range: getRange(sourceFile, property.name),
+          });
+        }
+      }
+
+      // server.use([() => import('...')]) / router.use([...])
+      if (
+        (receiver === "server" || receiver === "router") &&
+        method === "use" &&
+        firstArg &&
+        ts.isArrayLiteralExpression(firstArg)
+      ) {
+        for (const element of firstArg.elements) {
+          kernel.global.push({
+            importPath: getLazyImportPath(element),
+            range: getRange(sourceFile, element),
+          });
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return kernel;
+}
+
+/**
+ * Finds the named middleware used by routes and groups in a routes file:
+ * `.use(middleware.auth())` and `.middleware(['auth'])`.
+ */
+export function findMiddlewareReferences(
+  sourceFile: ts.SourceFile
+): MiddlewareReference[] {
+  const references: MiddlewareReference[] = [];
+
+  const visit = (node: ts.Node) => {
+    const name = getMiddlewareReferenceName(node);
+    if (name) {
+      references.push(name);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  const getMiddlewareReferenceName = (
+    node: ts.Node
+  ): MiddlewareReference | null => {
+    if (ts.isIdentifier(node) && isNamedMiddlewareAccess(node)) {
+      return { name: node.text, range: getRange(sourceFile, node) };
+    }
+    if (ts.isStringLiteral(node) && isMiddlewareString(node)) {
+      // v5 style 'throttle:10' passes arguments after the colon
+      const name = node.text.split(":")[0];
+      const start = node.getStart(sourceFile) + 1;
+      return {
+        name,
+        range: {
+          start: sourceFile.getLineAndCharacterOfPosition(start),
+          end: sourceFile.getLineAndCharacterOfPosition(start + name.length),
+        },
+      };
+    }
+    return null;
+  };
+
+  visit(sourceFile);
+  return references;
+}
+
+/**
+ * Whether an identifier is the key in `middleware.auth` (the named middleware
+ * collection exported by `start/kernel.ts`).
+ */
+export function isNamedMiddlewareAccess(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    ts.isPropertyAccessExpression(parent) &&
+    parent.name === node &&
+    ts.isIdentifier(parent.expression) &&
+    parent.expression.text === "middleware"
+  );
+}
+
+/**
+ * Whether a string names a middleware in `.middleware('auth')` or
+ * `.middleware(['auth', 'admin'])`.
+ */
+export function isMiddlewareString(node: ts.StringLiteral): boolean {
+  const parent = node.parent;
+  const call = ts.isArrayLiteralExpression(parent) ? parent.parent : parent;
+  return (
+    ts.isCallExpression(call) &&
+    ts.isPropertyAccessExpression(call.expression) &&
+    call.expression.name.text === "middleware"
+  );
+}
+
+/**
+ * Loads and caches the middleware kernel of each project.
+ */
+export class MiddlewareKernel {
+  private kernels = new Map<string, CachedKernel>();
+
+  constructor(private importResolver: ImportResolver) {}
+
+  getKernelPath(projectRoot: string): string {
+    return path.join(projectRoot, "start", "kernel.ts");
+  }
+
+  getKernel(projectRoot: string): KernelMiddleware | null {
+    const kernelPath = this.getKernelPath(projectRoot);
+
+    let mtime: number;
+    try {
+      mtime = fs.statSync(kernelPath).mtime.getTime();
+    } catch {
+      return null;
+    }
+
+    const cached = this.kernels.get(kernelPath);
+    if (cached && cached.mtime === mtime) return cached.kernel;
+
+    try {
+      const sourceFile = ts.createSourceFile(
+        kernelPath,
+        fs.readFileSync(kernelPath, "utf8"),
+        ts.ScriptTarget.Latest,
+        true
+      );
+      const kernel = parseKernelFile(sourceFile);
+      this.kernels.set(kernelPath, { mtime, kernel });
+      return kernel;
+    } catch (error) {
+      console.error("Failed to parse kernel file:", kernelPath, error);
+      return null;
+    }
+  }
+
+  /**
+   * Resolves a named middleware to the file implementing it.
+   */
+  resolveNamedMiddleware(name: string, projectRoot: string): string | null {
+    const entry = this.getKernel(projectRoot)?.named.get(name);
+    if (!entry?.importPath) return null;
+
+    return this.importResolver.resolve(
+      entry.importPath,
+      this.getKernelPath(projectRoot),
+      projectRoot
+    );
+  }
+}
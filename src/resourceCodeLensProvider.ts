@@ -0,0 +1,101 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { AdonisRoutesDefinitionProvider } from "./definitionProvider";
+import { formatController } from "./routeFormat";
+import { RouteIndex } from "./routeIndex";
+import { toVscodeRange } from "./routeNavigation";
+import { RouteRecord } from "./routeParser";
+
+/**
+ * Shows above each `router.resource()` call which of its actions are missing
+ * from the controller.
+ */
+export class ResourceCodeLensProvider implements vscode.CodeLensProvider {
+  readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+  constructor(
+    private routeIndex: RouteIndex,
+    private definitionProvider: AdonisRoutesDefinitionProvider
+  ) {
+    this.onDidChangeCodeLenses = routeIndex.onDidChange;
+  }
+
+  provideCodeLenses(
+    document: vscode.TextDocument
+  ): vscode.ProviderResult<vscode.CodeLens[]> {
+    if (!this.routeIndex.isRoutesFile(document.fileName)) return [];
+
+    try {
+      const projectRoot = this.definitionProvider.findProjectRoot(
+        document.fileName
+      );
+      if (!projectRoot) return [];
+
+      // One entry per resource call, even when the file is mounted many times
+      const resources = new Map<string, RouteRecord[]>();
+      for (const route of this.routeIndex.getRoutesInFile(document.fileName)) {
+        if (!route.resource) continue;
+        const key = `${route.range.start.line}:${route.range.start.character}`;
+        const routes = resources.get(key) || [];
+        const action = route.resource.action;
+        if (!routes.some((r) => r.resource!.action === action)) {
+          routes.push(route);
+        }
+        resources.set(key, routes);
+      }
+
+      const lenses: vscode.CodeLens[] = [];
+      for (const routes of resources.values()) {
+        const lens = this.createLens(routes, projectRoot);
+        if (lens) lenses.push(lens);
+      }
+      return lenses;
+    } catch (error) {
+      console.error("AdonisJS Routes Goto Error:", error);
+      return [];
+    }
+  }
+
+  private createLens(
+    routes: RouteRecord[],
+    projectRoot: string
+  ): vscode.CodeLens | null {
+    const handler = routes[0].handler;
+    const range = toVscodeRange(routes[0].resource!.nameRange);
+    const controllerName = handler && formatController(handler);
+    if (!controllerName) return null;
+
+    const controllerPath = this.definitionProvider.resolveHandlerController(
+      handler,
+      routes[0].filePath,
+      projectRoot
+    );
+    if (!controllerPath) {
+      return new vscode.CodeLens(range, {
+        title: `Controller '${controllerName}' not found`,
+        command: "",
+      });
+    }
+
+    const actions = routes.map((route) => route.resource!.action);
+    const missing = actions.filter(
+      (action) =>
+        !this.definitionProvider.findMethodInControllerFile(
+          controllerPath,
+          action
+        )
+    );
+
+    const title =
+      missing.length === 0
+        ? `${actions.length} actions: ${actions.join(", ")}`
+        : `Missing in ${controllerName}: ${missing.join(", ")}`;
+
+    return new vscode.CodeLens(range, {
+      title,
+      tooltip: path.relative(projectRoot, controllerPath),
+      command: "vscode.open",
+      arguments: [vscode.Uri.file(controllerPath)],
+    });
+  }
+}
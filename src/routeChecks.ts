@@ -0,0 +1,332 @@
+import * as ts from "typescript";
+import * as path from "path";
+import {
+  findEagerControllerImports,
+  hasLazyControllerImports,
+} from "./controllerImports";
+import { findProjectRoot } from "./importResolver";
+import { MiddlewareKernel, findMiddlewareReferences } from "./middlewareKernel";
+import { findRouteConflicts, getRegistrationOrder } from "./routeConflicts";
+import { formatController, formatRoute } from "./routeFormat";
+import { RouteRecord, SourceRange, getRange } from "./routeParser";
+import { RouteResolver, SourceLocation } from "./routeResolver";
+
+export const DIAGNOSTIC_SOURCE = "adonisjs-routes";
+
+export enum RouteDiagnosticCode {
+  MissingControllerFile = "missing-controller-file",
+  UnresolvedController = "unresolved-controller",
+  MissingMethod = "missing-method",
+  MissingHandle = "missing-handle",
+  UnknownMiddleware = "unknown-middleware",
+  UnknownRouteName = "unknown-route-name",
+  MissingRouteParam = "missing-route-param",
+  UnknownRouteParam = "unknown-route-param",
+  DuplicateRoute = "duplicate-route",
+  DuplicateRouteName = "duplicate-route-name",
+  ShadowedRoute = "shadowed-route",
+  EagerControllerImport = "eager-controller-import",
+}
+
+export interface RouteProblem {
+  filePath: string;
+  range: SourceRange;
+  message: string;
+  code: RouteDiagnosticCode;
+  severity: "error" | "warning";
+  /** The other side of a conflict between two routes. */
+  related?: SourceLocation & { message: string };
+}
+
+/**
+ * Finds broken route handlers (missing controller files, unknown methods,
+ * controllers without a `handle` method), unregistered middleware and routes
+ * conflicting with each other. Shared by the editor diagnostics and the
+ * `adonis-routes-check` CLI.
+ */
+export class RouteChecker {
+  constructor(
+    private routeResolver: RouteResolver,
+    private middlewareKernel: MiddlewareKernel
+  ) {}
+
+  /**
+   * Checks a routes file and the routes it declares.
+   */
+  checkFile(
+    sourceFile: ts.SourceFile,
+    routes: RouteRecord[],
+    projectRoot: string
+  ): RouteProblem[] {
+    const problems = [
+      ...this.checkImportPaths(sourceFile, projectRoot),
+      ...this.checkMiddleware(sourceFile, projectRoot),
+      ...this.checkControllerImports(sourceFile, routes),
+    ];
+
+    // Mounted modules appear once per mount; check each route only once
+    const seen = new Set<string>();
+    for (const route of routes) {
+      if (seen.has(route.id)) continue;
+      seen.add(route.id);
+
+      const problem = this.checkRoute(route, projectRoot);
+      if (problem) problems.push(problem);
+    }
+
+    return problems;
+  }
+
+  /**
+   * Checks routes against each other: the same verb and URL registered
+   * twice, names used twice, and routes captured by an earlier param route.
+   * Each conflict is reported on both routes.
+   */
+  checkConflicts(
+    routes: RouteRecord[],
+    getFileOrder: (filePath: string) => number
+  ): RouteProblem[] {
+    const problems = new Map<string, RouteProblem>();
+    const conflicts = findRouteConflicts(routes, (route) =>
+      getRegistrationOrder(route, getFileOrder)
+    );
+
+    for (const { kind, route, other } of conflicts) {
+      const otherLocation = `${relativePath(other.filePath)}:${
+        other.range.start.line + 1
+      }`;
+
+      let problem: RouteProblem;
+      switch (kind) {
+        case "duplicate":
+          problem = createProblem(
+            route.filePath,
+            route.patternRange,
+            `${formatRoute(route)} is also registered at ${otherLocation}.`,
+            RouteDiagnosticCode.DuplicateRoute,
+            "warning"
+          );
+          break;
+        case "duplicate-name":
+          problem = createProblem(
+            route.filePath,
+            route.nameRange || route.patternRange,
+            `Route name '${route.name}' is also used by ${formatRoute(
+              other
+            )} at ${otherLocation}.`,
+            RouteDiagnosticCode.DuplicateRouteName,
+            "warning"
+          );
+          break;
+        case "shadowed":
+          problem = createProblem(
+            route.filePath,
+            route.patternRange,
+            `${formatRoute(route)} is unreachable: ${formatRoute(
+              other
+            )} is registered first at ${otherLocation} and matches it.`,
+            RouteDiagnosticCode.ShadowedRoute,
+            "warning"
+          );
+          break;
+        case "shadows":
+          problem = createProblem(
+            route.filePath,
+            route.patternRange,
+            `${formatRoute(route)} captures ${formatRoute(
+              other
+            )}, registered after it at ${otherLocation}.`,
+            RouteDiagnosticCode.ShadowedRoute,
+            "warning"
+          );
+          break;
+      }
+      problem.related = {
+        filePath: other.filePath,
+        range: other.patternRange,
+        message: formatRoute(other),
+      };
+
+      // Routes sharing a pattern (resource actions) report on the same range
+      const { start } = problem.range;
+      problems.set(
+        `${route.filePath}:${start.line}:${start.character}:${problem.message}`,
+        problem
+      );
+    }
+
+    return Array.from(problems.values());
+  }
+
+  private checkImportPaths(
+    sourceFile: ts.SourceFile,
+    projectRoot: string
+  ): RouteProblem[] {
+    const problems: RouteProblem[] = [];
+
+    const visit = (node: ts.Node) => {
+      // Lazy import('#controllers/...') calls and static imports alike
+      const importPath =
+        ts.isCallExpression(node) &&
+        node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+        node.arguments.length > 0
+          ? node.arguments[0]
+          : ts.isImportDeclaration(node)
+          ? node.moduleSpecifier
+          : null;
+      if (
+        importPath &&
+        ts.isStringLiteral(importPath) &&
+        importPath.text.startsWith("#controllers/")
+      ) {
+        const controllerPath =
+          this.routeResolver.resolveControllerFromImportPath(
+            importPath.text,
+            sourceFile.fileName,
+            projectRoot
+          );
+        if (!controllerPath) {
+          problems.push(
+            createProblem(
+              sourceFile.fileName,
+              getRange(sourceFile, importPath),
+              `Cannot find controller module '${importPath.text}'.`,
+              RouteDiagnosticCode.MissingControllerFile
+            )
+          );
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return problems;
+  }
+
+  /**
+   * Reports controllers imported statically in a file that otherwise loads
+   * its controllers lazily.
+   */
+  private checkControllerImports(
+    sourceFile: ts.SourceFile,
+    routes: RouteRecord[]
+  ): RouteProblem[] {
+    const eagerImports = findEagerControllerImports(sourceFile, routes);
+    if (
+      eagerImports.length === 0 ||
+      !hasLazyControllerImports(sourceFile, routes)
+    ) {
+      return [];
+    }
+
+    return eagerImports.map((eager) =>
+      createProblem(
+        sourceFile.fileName,
+        eager.range,
+        `'${eager.localName}' is imported eagerly while the other controllers of this file are lazy-loaded.`,
+        RouteDiagnosticCode.EagerControllerImport,
+        "warning"
+      )
+    );
+  }
+
+  private checkMiddleware(
+    sourceFile: ts.SourceFile,
+    projectRoot: string
+  ): RouteProblem[] {
+    const kernel = this.middlewareKernel.getKernel(projectRoot);
+    if (!kernel) return [];
+
+    return findMiddlewareReferences(sourceFile)
+      .filter((reference) => !kernel.named.has(reference.name))
+      .map((reference) =>
+        createProblem(
+          sourceFile.fileName,
+          reference.range,
+          `Middleware '${reference.name}' is not registered in ${path.relative(
+            projectRoot,
+            kernel.filePath
+          )}.`,
+          RouteDiagnosticCode.UnknownMiddleware
+        )
+      );
+  }
+
+  private checkRoute(
+    route: RouteRecord,
+    projectRoot: string
+  ): RouteProblem | null {
+    const handler = route.handler;
+    if (!handler || route.kind !== "route") return null;
+
+    const controllerName = formatController(handler);
+    if (!controllerName) return null;
+
+    const controllerPath = this.routeResolver.resolveHandlerController(
+      handler,
+      route.filePath,
+      projectRoot
+    );
+    if (!controllerPath && handler.type === "controller_string") {
+      return createProblem(
+        route.filePath,
+        handler.controllerRange || handler.range,
+        `Cannot find controller module '${handler.importPath}'.`,
+        RouteDiagnosticCode.MissingControllerFile
+      );
+    }
+    if (!controllerPath) {
+      const from = handler.importPath ? ` from '${handler.importPath}'` : "";
+      return createProblem(
+        route.filePath,
+        handler.controllerRange || handler.range,
+        `Cannot resolve controller '${controllerName}'${from}.`,
+        RouteDiagnosticCode.UnresolvedController
+      );
+    }
+
+    const methodName = handler.methodName || "handle";
+    if (this.hasMethod(controllerPath, methodName)) return null;
+
+    const relativePath = path.relative(projectRoot, controllerPath);
+    if (handler.methodName) {
+      return createProblem(
+        route.filePath,
+        handler.methodRange || handler.range,
+        `Method '${methodName}' does not exist on '${controllerName}' (${relativePath}).`,
+        RouteDiagnosticCode.MissingMethod
+      );
+    }
+
+    return createProblem(
+      route.filePath,
+      handler.controllerRange || handler.range,
+      `'${controllerName}' is used without a method but has no 'handle' method (${relativePath}).`,
+      RouteDiagnosticCode.MissingHandle
+    );
+  }
+
+  private hasMethod(controllerPath: string, methodName: string): boolean {
+    // Methods may live in another file (re-exports, base classes), so this
+    // is not cached per controller; the resolver caches parsed files instead
+    return !!this.routeResolver.findMethodInControllerFile(
+      controllerPath,
+      methodName
+    );
+  }
+}
+
+function relativePath(filePath: string): string {
+  const projectRoot = findProjectRoot(filePath);
+  return projectRoot ? path.relative(projectRoot, filePath) : filePath;
+}
+
+function createProblem(
+  filePath: string,
+  range: SourceRange,
+  message: string,
+  code: RouteDiagnosticCode,
+  severity: RouteProblem["severity"] = "error"
+): RouteProblem {
+  return { filePath, range, message, code, severity };
+}
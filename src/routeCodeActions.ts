@@ -0,0 +1,455 @@
+import * as vscode from "vscode";
+import * as ts from "typescript";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  EagerControllerImport,
+  findEagerControllerImports,
+  planLazyImportConversion,
+} from "./controllerImports";
+import { findControllerClasses } from "./controllerParser";
+import {
+  TextEdit,
+  createControllerSource,
+  getControllerImportPath,
+  getConventionalController,
+  isDeclaredInFile,
+  planControllerImport,
+  planMethodInsertion,
+} from "./controllerScaffold";
+import { ImportResolver, findProjectRoot } from "./importResolver";
+import { DIAGNOSTIC_SOURCE, RouteDiagnosticCode } from "./routeChecks";
+import { RouteIndex } from "./routeIndex";
+import { toVscodeRange } from "./routeNavigation";
+import {
+  RouteRecord,
+  SourcePosition,
+  containsPosition,
+  getControllerNameFromPath,
+  getRange,
+} from "./routeParser";
+import { ControllerClass, RouteResolver } from "./routeResolver";
+
+/**
+ * Quick fixes scaffolding what a route points at but does not exist: the
+ * method on the controller, the controller file, and the lazy import
+ * declaring the controller in the routes file. Also rewrites static
+ * controller imports into lazy ones.
+ */
+export class RouteCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.QuickFix,
+    vscode.CodeActionKind.RefactorRewrite,
+  ];
+
+  constructor(
+    private routeIndex: RouteIndex,
+    private routeResolver: RouteResolver,
+    private importResolver: ImportResolver
+  ) {}
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    if (!this.routeIndex.isRoutesFile(document.fileName)) return [];
+
+    const projectRoot = findProjectRoot(document.fileName);
+    if (!projectRoot) return [];
+
+    const sourceFile = this.routeIndex.getSourceFile(document);
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== DIAGNOSTIC_SOURCE) continue;
+
+      const action = this.createFix(
+        diagnostic,
+        document,
+        sourceFile,
+        projectRoot
+      );
+      if (action) {
+        action.diagnostics = [diagnostic];
+        actions.push(action);
+      }
+    }
+
+    const importFix = this.createImportFix(
+      range.start,
+      document,
+      sourceFile,
+      projectRoot
+    );
+    if (importFix) actions.push(importFix);
+
+    actions.push(
+      ...this.createLazyImportActions(
+        range,
+        document,
+        sourceFile,
+        context.diagnostics
+      )
+    );
+    return actions;
+  }
+
+  private createFix(
+    diagnostic: vscode.Diagnostic,
+    document: vscode.TextDocument,
+    sourceFile: ts.SourceFile,
+    projectRoot: string
+  ): vscode.CodeAction | null {
+    const route =
+      this.findRouteAt(document.fileName, diagnostic.range.start) || null;
+    switch (diagnostic.code) {
+      case RouteDiagnosticCode.MissingMethod:
+      case RouteDiagnosticCode.MissingHandle:
+        return route && this.createAddMethodFix(route, projectRoot);
+      case RouteDiagnosticCode.MissingControllerFile: {
+        const importPath =
+          route?.handler?.importPath ||
+          document.getText(diagnostic.range).slice(1, -1);
+        return this.createControllerFileFix(
+          importPath,
+          document.fileName,
+          projectRoot
+        );
+      }
+      case RouteDiagnosticCode.UnresolvedController:
+        return (
+          route && this.createControllerFix(route, sourceFile, projectRoot)
+        );
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Adds the method a route runs to the class its controller file exports.
+   */
+  private createAddMethodFix(
+    route: RouteRecord,
+    projectRoot: string
+  ): vscode.CodeAction | null {
+    const handler = route.handler!;
+    const controllerPath = this.routeResolver.resolveHandlerController(
+      handler,
+      route.filePath,
+      projectRoot
+    );
+    const resolved =
+      controllerPath && this.routeResolver.findControllerClass(controllerPath);
+    const controller = resolved && withUnsavedChanges(resolved);
+    if (!controller) return null;
+
+    const methodName = handler.methodName || "handle";
+    const className =
+      controller.node.name?.text ||
+      path.basename(controller.sourceFile.fileName);
+    const action = new vscode.CodeAction(
+      `Add method '${methodName}' to ${className}`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.edit = new vscode.WorkspaceEdit();
+    applyEdits(action.edit, planMethodInsertion(controller, methodName));
+    action.isPreferred = true;
+    return action;
+  }
+
+  /**
+   * Creates the controller file a lazy import or string handler points at.
+   */
+  private createControllerFileFix(
+    importPath: string,
+    routesFile: string,
+    projectRoot: string
+  ): vscode.CodeAction | null {
+    const filePath = this.importResolver.getSourcePath(
+      importPath,
+      routesFile,
+      projectRoot
+    );
+    if (!filePath || fs.existsSync(filePath)) return null;
+
+    const methodNames = this.getMethodNames(
+      routesFile,
+      (route) => route.handler?.importPath === importPath
+    );
+    const action = new vscode.CodeAction(
+      `Create ${path.relative(projectRoot, filePath)}`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.edit = createFileEdit(
+      filePath,
+      createControllerSource(getControllerNameFromPath(importPath), methodNames)
+    );
+    action.isPreferred = true;
+    return action;
+  }
+
+  /**
+   * Creates the file of a controller nothing declares, at its conventional
+   * path, and declares it in the routes file.
+   */
+  private createControllerFix(
+    route: RouteRecord,
+    sourceFile: ts.SourceFile,
+    projectRoot: string
+  ): vscode.CodeAction | null {
+    const handler = route.handler!;
+    const controllerName = handler.controllerName || handler.variableName;
+    // Imported controllers are not created by convention
+    if (
+      !controllerName ||
+      handler.type !== "controller" ||
+      handler.importPath
+    ) {
+      return null;
+    }
+
+    const target = getConventionalController(
+      controllerName,
+      projectRoot,
+      this.importResolver
+    );
+    if (!target || fs.existsSync(target.filePath)) return null;
+
+    const methodNames = this.getMethodNames(
+      route.filePath,
+      (other) =>
+        other.handler?.type === "controller" &&
+        other.handler.controllerName === controllerName &&
+        !other.handler.importPath
+    );
+    const declared = isDeclaredInFile(controllerName, sourceFile);
+    const action = new vscode.CodeAction(
+      declared
+        ? `Create ${path.relative(projectRoot, target.filePath)}`
+        : `Create ${path.relative(
+            projectRoot,
+            target.filePath
+          )} and import ${controllerName}`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.edit = createFileEdit(
+      target.filePath,
+      createControllerSource(controllerName, methodNames)
+    );
+    if (!declared) {
+      applyEdits(action.edit, [
+        planControllerImport(sourceFile, controllerName, target.importPath),
+      ]);
+    }
+    action.isPreferred = true;
+    return action;
+  }
+
+  /**
+   * Declares a controller used by a route but not declared in the routes
+   * file, when its file exists by convention.
+   */
+  private createImportFix(
+    position: SourcePosition,
+    document: vscode.TextDocument,
+    sourceFile: ts.SourceFile,
+    projectRoot: string
+  ): vscode.CodeAction | null {
+    const handler = this.findRouteAt(document.fileName, position)?.handler;
+    const controllerName = handler?.controllerName;
+    if (
+      !handler ||
+      !controllerName ||
+      handler.type !== "controller" ||
+      handler.importPath ||
+      isDeclaredInFile(controllerName, sourceFile)
+    ) {
+      return null;
+    }
+
+    const controllerPath = this.routeResolver.resolveControllerPath(
+      controllerName,
+      projectRoot
+    );
+    const importPath =
+      controllerPath &&
+      getControllerImportPath(controllerPath, projectRoot, this.importResolver);
+    if (!importPath) return null;
+
+    const action = new vscode.CodeAction(
+      `Import ${controllerName} from '${importPath}'`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.edit = new vscode.WorkspaceEdit();
+    applyEdits(action.edit, [
+      planControllerImport(sourceFile, controllerName, importPath),
+    ]);
+    return action;
+  }
+
+  /**
+   * Converts the static controller import under the cursor, or every one of
+   * the file, into lazy imports. Quick fixes for the mixed imports warning,
+   * refactorings otherwise.
+   */
+  private createLazyImportActions(
+    range: vscode.Range,
+    document: vscode.TextDocument,
+    sourceFile: ts.SourceFile,
+    diagnostics: readonly vscode.Diagnostic[]
+  ): vscode.CodeAction[] {
+    const eagerImports = findEagerControllerImports(
+      sourceFile,
+      this.routeIndex.getRoutesInFile(document.fileName)
+    );
+    const atCursor = eagerImports.filter((eager) =>
+      containsPosition(getRange(sourceFile, eager.declaration), range.start)
+    );
+    if (atCursor.length === 0) return [];
+
+    const warnings = diagnostics.filter(
+      (diagnostic) =>
+        diagnostic.source === DIAGNOSTIC_SOURCE &&
+        diagnostic.code === RouteDiagnosticCode.EagerControllerImport
+    );
+    const createAction = (
+      title: string,
+      imports: EagerControllerImport[]
+    ) => {
+      const fixed = warnings.filter((diagnostic) =>
+        imports.some((eager) =>
+          toVscodeRange(eager.range).isEqual(diagnostic.range)
+        )
+      );
+      const action = new vscode.CodeAction(
+        title,
+        fixed.length > 0
+          ? vscode.CodeActionKind.QuickFix
+          : vscode.CodeActionKind.RefactorRewrite
+      );
+      if (fixed.length > 0) action.diagnostics = fixed;
+      action.edit = new vscode.WorkspaceEdit();
+      applyEdits(action.edit, planLazyImportConversion(sourceFile, imports));
+      return action;
+    };
+
+    const actions = atCursor.map((eager) =>
+      createAction(`Convert '${eager.localName}' to a lazy import`, [eager])
+    );
+    if (eagerImports.length > 1) {
+      actions.push(
+        createAction(
+          "Convert all controller imports of this file to lazy imports",
+          eagerImports
+        )
+      );
+    }
+    return actions;
+  }
+
+  /** The route whose handler contains a position. */
+  private findRouteAt(
+    filePath: string,
+    position: SourcePosition
+  ): RouteRecord | undefined {
+    return this.routeIndex
+      .getRoutesInFile(filePath)
+      .find(
+        (route) =>
+          route.handler && containsPosition(route.handler.range, position)
+      );
+  }
+
+  /**
+   * The methods the matching routes of a file run, so that a new controller
+   * is created with all of them.
+   */
+  private getMethodNames(
+    filePath: string,
+    matches: (route: RouteRecord) => boolean
+  ): string[] {
+    const methodNames = new Set<string>();
+    for (const route of this.routeIndex.getRoutesInFile(filePath)) {
+      if (route.kind === "route" && matches(route)) {
+        methodNames.add(route.handler?.methodName || "handle");
+      }
+    }
+    return methodNames.size > 0 ? Array.from(methodNames) : ["handle"];
+  }
+}
+
+/**
+ * The controller class as in its open editor, so that edits land where the
+ * unsaved text has it. Null when it can no longer be found there.
+ */
+function withUnsavedChanges(
+  controller: ControllerClass
+): ControllerClass | null {
+  const document = vscode.workspace.textDocuments.find(
+    (doc) => doc.fileName === controller.sourceFile.fileName && !doc.isClosed
+  );
+  const text = document?.getText();
+  if (text === undefined || text === controller.sourceFile.text) {
+    return controller;
+  }
+
+  const sourceFile = ts.createSourceFile(
+    controller.sourceFile.fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const className = controller.node.name?.text;
+  const classes = findControllerClasses(sourceFile);
+  const node = className
+    ? classes.find((candidate) => candidate.name?.text === className)
+    : classes[0];
+  return node ? { sourceFile, node } : null;
+}
+
+function createFileEdit(filePath: string, text: string): vscode.WorkspaceEdit {
+  const uri = vscode.Uri.file(filePath);
+  const edit = new vscode.WorkspaceEdit();
+  edit.createFile(uri, { ignoreIfExists: true });
+  edit.insert(uri, new vscode.Position(0, 0), text);
+  return edit;
+}
+
+function applyEdits(
+  edit: vscode.WorkspaceEdit,
+  edits: TextEdit[]
+) {
+  for (const { filePath, range, text } of edits) {
+    edit.replace(vscode.Uri.file(filePath), toVscodeRange(range), text);
+  }
+}
+
+/**
+ * Rewrites every static controller import of the active routes file into a
+ * lazy import.
+ */
+export async function convertControllerImports(routeIndex: RouteIndex) {
+  const document = vscode.window.activeTextEditor?.document;
+  if (!document || !routeIndex.isRoutesFile(document.fileName)) {
+    vscode.window.showInformationMessage(
+      "Open a routes file to convert its controller imports."
+    );
+    return;
+  }
+
+  const sourceFile = routeIndex.getSourceFile(document);
+  const eagerImports = findEagerControllerImports(
+    sourceFile,
+    routeIndex.getRoutesInFile(document.fileName)
+  );
+  if (eagerImports.length === 0) {
+    vscode.window.showInformationMessage(
+      "This file has no static controller imports."
+    );
+    return;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  applyEdits(edit, planLazyImportConversion(sourceFile, eagerImports));
+  await vscode.workspace.applyEdit(edit);
+}
@@ -0,0 +1,229 @@
+import * as vscode from "vscode";
+import * as ts from "typescript";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  getMethodDocumentation,
+  getMethodSignature,
+  getPublicMethods,
+} from "./controllerParser";
+import { AdonisRoutesDefinitionProvider } from "./definitionProvider";
+import { ImportResolver } from "./importResolver";
+import { RouteIndex } from "./routeIndex";
+import { HandlerInfo, createRouteHandler } from "./routeParser";
+import { RouteResolver } from "./routeResolver";
+
+/**
+ * Completes controller method names inside `[Controller, '']` tuples and
+ * subpath import aliases (`#controllers/`, `#middleware/`, ...) inside
+ * `import()` calls.
+ */
+export class RouteCompletionProvider implements vscode.CompletionItemProvider {
+  constructor(
+    private routeIndex: RouteIndex,
+    private routeResolver: RouteResolver,
+    private definitionProvider: AdonisRoutesDefinitionProvider,
+    private importResolver: ImportResolver
+  ) {}
+
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.CompletionItem[]> {
+    if (!this.routeIndex.isRoutesFile(document.fileName)) return null;
+
+    try {
+      const sourceFile = this.routeIndex.getSourceFile(document);
+      const offset = document.offsetAt(position);
+      const literal = this.findStringLiteralAt(sourceFile, offset);
+      if (!literal) return null;
+
+      const projectRoot = this.definitionProvider.findProjectRoot(
+        document.fileName
+      );
+      if (!projectRoot) return null;
+
+      // Replace the whole string content, not only the word at the cursor
+      const contentStart = literal.getStart(sourceFile) + 1;
+      const contentEnd = isClosed(literal, sourceFile)
+        ? literal.getEnd() - 1
+        : literal.getEnd();
+      const range = new vscode.Range(
+        document.positionAt(contentStart),
+        document.positionAt(Math.max(contentStart, contentEnd))
+      );
+
+      const parent = literal.parent;
+      const handler =
+        ts.isArrayLiteralExpression(parent) && parent.elements[1] === literal
+          ? createRouteHandler(parent, sourceFile)
+          : null;
+      if (handler) {
+        return this.completeMethodNames(
+          handler,
+          sourceFile,
+          projectRoot,
+          range
+        );
+      }
+
+      if (
+        ((ts.isCallExpression(parent) &&
+          parent.expression.kind === ts.SyntaxKind.ImportKeyword) ||
+          ts.isImportDeclaration(parent)) &&
+        (literal.text === "" || literal.text.startsWith("#"))
+      ) {
+        return this.completeAliasedModules(literal.text, projectRoot, range);
+      }
+
+      return null;
+    } catch (error) {
+      console.error("AdonisJS Routes Goto Error:", error);
+      return null;
+    }
+  }
+
+  private completeMethodNames(
+    handler: HandlerInfo,
+    sourceFile: ts.SourceFile,
+    projectRoot: string,
+    range: vscode.Range
+  ): vscode.CompletionItem[] {
+    const controllerPath = this.definitionProvider.resolveHandlerController(
+      handler,
+      sourceFile.fileName,
+      projectRoot
+    );
+    if (!controllerPath) return [];
+
+    // Methods inherited from base controllers are routable too; overrides
+    // are listed once, from the subclass
+    const chain = this.routeResolver.getControllerClassChain(controllerPath);
+    const items: vscode.CompletionItem[] = [];
+    const listed = new Set<string>();
+    for (const { sourceFile: classFile, node } of chain) {
+      for (const method of getPublicMethods(node)) {
+        if (listed.has(method.name.text)) continue;
+        listed.add(method.name.text);
+
+        const item = new vscode.CompletionItem(
+          method.name.text,
+          vscode.CompletionItemKind.Method
+        );
+        item.range = range;
+        item.detail = getMethodSignature(method, classFile);
+        item.sortText = String(items.length).padStart(4, "0");
+
+        const docs = getMethodDocumentation(method, classFile);
+        const documentation = new vscode.MarkdownString();
+        if (docs) documentation.appendMarkdown(`${docs}\n\n`);
+        documentation.appendMarkdown(
+          `*${path.relative(projectRoot, classFile.fileName)}*`
+        );
+        item.documentation = documentation;
+        items.push(item);
+      }
+    }
+    return items;
+  }
+
+  private completeAliasedModules(
+    typed: string,
+    projectRoot: string,
+    range: vscode.Range
+  ): vscode.CompletionItem[] {
+    const imports = this.definitionProvider.getPackageImports(projectRoot);
+    const items: vscode.CompletionItem[] = [];
+
+    for (const alias of Object.keys(imports)) {
+      const starIndex = alias.indexOf("*");
+      if (starIndex === -1) continue;
+
+      // Only list aliases compatible with what has been typed so far
+      const prefix = alias.slice(0, starIndex);
+      if (!prefix.startsWith(typed) && !typed.startsWith(prefix)) continue;
+
+      const baseDir = this.importResolver.getWildcardBaseDir(
+        alias,
+        projectRoot
+      );
+      if (!baseDir) continue;
+
+      const modules = new Set<string>();
+      this.collectModules(baseDir, "", modules);
+
+      for (const moduleName of Array.from(modules).sort()) {
+        const item = new vscode.CompletionItem(
+          `${prefix}${moduleName}`,
+          vscode.CompletionItemKind.Module
+        );
+        item.range = range;
+        item.detail = path.relative(
+          projectRoot,
+          path.join(baseDir, moduleName)
+        );
+        items.push(item);
+      }
+    }
+
+    return items;
+  }
+
+  private collectModules(dir: string, prefix: string, modules: Set<string>) {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        this.collectModules(
+          path.join(dir, entry.name),
+          `${prefix}${entry.name}/`,
+          modules
+        );
+      } else if (
+        /\.(ts|js)$/.test(entry.name) &&
+        !entry.name.endsWith(".d.ts")
+      ) {
+        modules.add(`${prefix}${entry.name.replace(/\.(ts|js)$/, "")}`);
+      }
+    }
+  }
+
+  private findStringLiteralAt(
+    sourceFile: ts.SourceFile,
+    offset: number
+  ): ts.StringLiteral | null {
+    let found: ts.StringLiteral | null = null;
+
+    const visit = (node: ts.Node) => {
+      if (offset < node.getStart(sourceFile) || offset > node.getEnd()) return;
+      if (
+        ts.isStringLiteral(node) &&
+        offset > node.getStart(sourceFile) &&
+        (isClosed(node, sourceFile)
+          ? offset < node.getEnd()
+          : offset <= node.getEnd())
+      ) {
+        found = node;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return found;
+  }
+}
+
+/**
+ * Whether a string literal has its closing quote (strings being typed often
+ * do not).
+ */
+function isClosed(literal: ts.StringLiteral, sourceFile: ts.SourceFile) {
+  const text = literal.getText(sourceFile);
+  return text.length >= 2 && text[text.length - 1] === text[0];
+}
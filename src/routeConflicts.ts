@@ -0,0 +1,244 @@
+import { RouteRecord, SourcePosition } from "./routeParser";
+
+/**
+ * `shadowed` is reported on the route that can never match, `shadows` on the
+ * earlier route capturing it.
+ */
+export type RouteConflictKind =
+  | "duplicate"
+  | "duplicate-name"
+  | "shadowed"
+  | "shadows";
+
+export interface RouteConflict {
+  kind: RouteConflictKind;
+  /** The route reported on. */
+  route: RouteRecord;
+  /** The route it conflicts with. */
+  other: RouteRecord;
+}
+
+/**
+ * Matchers of `router.matchers` whose pattern is known, so that a constrained
+ * param is only said to capture a static segment it really matches.
+ */
+const KNOWN_MATCHERS: Record<string, RegExp> = {
+  "router.matchers.number()": /^\d+$/,
+  "router.matchers.uuid()":
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  "router.matchers.slug()": /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+};
+
+/**
+ * Finds routes registered twice for the same verb, domain and URL, route
+ * names used more than once on a domain, and static routes that a param
+ * route registered earlier captures (`/users/:id` before `/users/me`). Each
+ * conflict is reported from both sides.
+ *
+ * `getOrder` gives the registration order key of a route: positions compared
+ * element by element.
+ */
+export function findRouteConflicts(
+  routes: RouteRecord[],
+  getOrder: (route: RouteRecord) => number[]
+): RouteConflict[] {
+  const conflicts: RouteConflict[] = [];
+  const report = (
+    kind: RouteConflictKind,
+    route: RouteRecord,
+    other: RouteRecord,
+    otherKind = kind
+  ) => {
+    conflicts.push(
+      { kind, route, other },
+      { kind: otherKind, route: other, other: route }
+    );
+  };
+
+  const byUrl = new Map<string, RouteRecord[]>();
+  const byName = new Map<string, RouteRecord[]>();
+  for (const route of routes) {
+    const urlKey = `${route.domain || ""} ${normalizeUrl(route.url)}`;
+    byUrl.set(urlKey, [...(byUrl.get(urlKey) || []), route]);
+    // Names are looked up per domain (`router.builderForDomain()`)
+    if (route.name) {
+      const nameKey = `${route.domain || ""} ${route.name}`;
+      byName.set(nameKey, [...(byName.get(nameKey) || []), route]);
+    }
+  }
+
+  for (const sameUrl of byUrl.values()) {
+    forEachPair(sameUrl, (a, b) => {
+      if (methodsOverlap(a, b)) report("duplicate", a, b);
+    });
+  }
+
+  for (const sameName of byName.values()) {
+    forEachPair(sameName, (a, b) => report("duplicate-name", a, b));
+  }
+
+  const ordered = routes
+    .map((route) => ({ route, order: getOrder(route) }))
+    .sort((a, b) => compareRegistrationOrder(a.order, b.order));
+  for (let i = 0; i < ordered.length; i++) {
+    for (let j = i + 1; j < ordered.length; j++) {
+      const earlier = ordered[i].route;
+      const later = ordered[j].route;
+      if (
+        (earlier.domain || "") === (later.domain || "") &&
+        methodsOverlap(earlier, later) &&
+        captures(earlier, later)
+      ) {
+        report("shadowed", later, earlier, "shadows");
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Registration order key of a route: the order of the file registering it,
+ * then the position of every mount and group call leading to it.
+ */
+export function getRegistrationOrder(
+  route: RouteRecord,
+  getFileOrder: (filePath: string) => number
+): number[] {
+  // Routes of mounted modules are registered where the module is mounted
+  const entryFile = route.groups[0]?.filePath || route.filePath;
+  const positions = [
+    ...route.groups
+      .filter((group) => group.filePath !== route.filePath)
+      .map((group) => group.range.start),
+    route.range.start,
+  ];
+  return [
+    getFileOrder(entryFile),
+    ...positions.flatMap((position: SourcePosition) => [
+      position.line,
+      position.character,
+    ]),
+  ];
+}
+
+/**
+ * Sorts routes in the order AdonisJS registers them.
+ */
+export function sortByRegistrationOrder(
+  routes: RouteRecord[],
+  getFileOrder: (filePath: string) => number
+): RouteRecord[] {
+  return routes
+    .map((route) => ({
+      route,
+      order: getRegistrationOrder(route, getFileOrder),
+    }))
+    .sort((a, b) => compareRegistrationOrder(a.order, b.order))
+    .map(({ route }) => route);
+}
+
+function forEachPair(
+  routes: RouteRecord[],
+  callback: (a: RouteRecord, b: RouteRecord) => void
+) {
+  for (let i = 0; i < routes.length; i++) {
+    for (let j = i + 1; j < routes.length; j++) {
+      callback(routes[i], routes[j]);
+    }
+  }
+}
+
+export function compareRegistrationOrder(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Param names do not change what a URL matches: `/users/:id` and
+ * `/users/:userId` are the same route.
+ */
+function normalizeUrl(url: string): string {
+  return url
+    .split("/")
+    .map((segment) =>
+      segment.startsWith(":") ? (segment.endsWith("?") ? ":?" : ":") : segment
+    )
+    .join("/");
+}
+
+function methodsOverlap(a: RouteRecord, b: RouteRecord): boolean {
+  if (a.methods.includes("ANY") || b.methods.includes("ANY")) return true;
+  // `router.route()` without methods answers every verb too
+  if (a.methods.length === 0 || b.methods.length === 0) return true;
+  return a.methods.some((method) => b.methods.includes(method));
+}
+
+/**
+ * Whether every URL of `later` reaches the earlier route instead: each of its
+ * segments is matched by the same static segment or captured by a param or
+ * wildcard of the earlier route. Identical patterns are duplicates, not
+ * shadowing.
+ */
+function captures(earlier: RouteRecord, later: RouteRecord): boolean {
+  if (normalizeUrl(earlier.url) === normalizeUrl(later.url)) return false;
+
+  const pattern = earlier.url.split("/").filter(Boolean);
+  const segments = later.url.split("/").filter(Boolean);
+  const matchers = new Map(
+    earlier.params.map((param) => [param.name, param.matcher])
+  );
+
+  for (let i = 0; i < pattern.length; i++) {
+    const part = pattern[i];
+    const segment = segments[i];
+
+    if (part === "*") {
+      // The wildcard swallows everything left
+      return segments.length > i;
+    }
+    if (segment === undefined) {
+      // Trailing optional params match a shorter URL
+      return pattern.slice(i).every((p) => p.endsWith("?"));
+    }
+    if (part.startsWith(":")) {
+      const matcher = matchers.get(part.slice(1).replace(/\?$/, ""));
+      if (segment === "*") return false;
+      if (segment.startsWith(":")) {
+        // A param only captures another param when it is as permissive
+        if (matcher || (segment.endsWith("?") && !part.endsWith("?"))) {
+          return false;
+        }
+        continue;
+      }
+      if (!paramMatches(matcher, segment)) return false;
+    } else if (part !== segment) {
+      return false;
+    }
+  }
+  return segments.length === pattern.length;
+}
+
+/**
+ * Whether a param constrained by a `.where()` matcher accepts a segment.
+ * Matchers that cannot be evaluated are assumed to reject it.
+ */
+export function paramMatches(
+  matcher: string | undefined,
+  segment: string
+): boolean {
+  if (!matcher) return true;
+
+  const known = KNOWN_MATCHERS[matcher.replace(/\s/g, "")];
+  if (known) return known.test(segment);
+
+  const literal = /^\/(.*)\/([a-z]*)$/.exec(matcher);
+  if (!literal) return false;
+  try {
+    return new RegExp(literal[1], literal[2]).test(segment);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,88 @@
+import * as vscode from "vscode";
+import { findProjectRoot } from "./importResolver";
+import { DIAGNOSTIC_SOURCE, RouteChecker, RouteProblem } from "./routeChecks";
+import { RouteIndex } from "./routeIndex";
+import { toLocation, toVscodeRange } from "./routeNavigation";
+
+/**
+ * Reports route handlers that Go to Definition would fail to resolve: missing
+ * controller files, unknown methods and controllers without a `handle` method.
+ * Also reports routes conflicting with each other across routes files.
+ */
+export class RouteDiagnostics implements vscode.Disposable {
+  private collection =
+    vscode.languages.createDiagnosticCollection("adonisjs-routes");
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private routeIndex: RouteIndex,
+    private routeChecker: RouteChecker
+  ) {
+    this.disposables.push(
+      this.collection,
+      routeIndex.onDidChange(() => this.refresh())
+    );
+  }
+
+  refresh() {
+    // Apps of a monorepo register their routes independently
+    const problems = this.routeIndex
+      .getProjectRoots()
+      .flatMap((projectRoot) =>
+        this.routeChecker.checkConflicts(
+          this.routeIndex.getRoutes(projectRoot),
+          (filePath) => this.routeIndex.getFileOrder(filePath)
+        )
+      );
+    for (const filePath of this.routeIndex.getIndexedFiles()) {
+      const projectRoot = findProjectRoot(filePath);
+      const sourceFile = this.routeIndex.getIndexedSourceFile(filePath);
+      if (!projectRoot || !sourceFile) continue;
+
+      problems.push(
+        ...this.routeChecker.checkFile(
+          sourceFile,
+          this.routeIndex.getRoutesInFile(filePath),
+          projectRoot
+        )
+      );
+    }
+
+    this.collection.clear();
+    const diagnostics = new Map<string, vscode.Diagnostic[]>();
+    for (const filePath of this.routeIndex.getIndexedFiles()) {
+      diagnostics.set(filePath, []);
+    }
+    for (const problem of problems) {
+      diagnostics.get(problem.filePath)?.push(toDiagnostic(problem));
+    }
+    for (const [filePath, fileDiagnostics] of diagnostics) {
+      this.collection.set(vscode.Uri.file(filePath), fileDiagnostics);
+    }
+  }
+
+  dispose() {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
+
+export function toDiagnostic(problem: RouteProblem): vscode.Diagnostic {
+  const diagnostic = new vscode.Diagnostic(
+    toVscodeRange(problem.range),
+    problem.message,
+    problem.severity === "error"
+      ? vscode.DiagnosticSeverity.Error
+      : vscode.DiagnosticSeverity.Warning
+  );
+  diagnostic.source = DIAGNOSTIC_SOURCE;
+  diagnostic.code = problem.code;
+  if (problem.related) {
+    diagnostic.relatedInformation = [
+      new vscode.DiagnosticRelatedInformation(
+        toLocation(problem.related),
+        problem.related.message
+      ),
+    ];
+  }
+  return diagnostic;
+}
@@ -0,0 +1,225 @@
+import { RouteParam, RouteRecord } from "./routeParser";
+
+export type RouteExportFormat = "json" | "markdown" | "openapi";
+
+export interface RouteTableHandler {
+  controller: string;
+  method: string;
+  /** Controller file, relative to the project root, when it was resolved. */
+  file?: string;
+  /** 1-based line of the method, or of the top of the file when not found. */
+  line?: number;
+}
+
+export interface RouteTableEntry {
+  methods: string[];
+  url: string;
+  name?: string;
+  middleware: string[];
+  domain?: string;
+  /** Routes file declaring the route, relative to the project root. */
+  file: string;
+  line: number;
+  params: RouteParam[];
+  handler: RouteTableHandler | null;
+}
+
+/** The subset of an OpenAPI 3 document the export writes. */
+interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string };
+  paths: Record<string, Record<string, OpenApiOperation>>;
+}
+
+interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  parameters: OpenApiParameter[];
+  responses: Record<string, { description: string }>;
+  "x-adonis-middleware"?: string[];
+  "x-adonis-domain"?: string;
+  /** `file:line` of the controller method. */
+  "x-adonis-handler"?: string;
+}
+
+interface OpenApiParameter {
+  name: string;
+  in: "path";
+  required: true;
+  schema: OpenApiSchema;
+}
+
+interface OpenApiSchema {
+  type: string;
+  format?: string;
+}
+
+/** Verbs a route registered with `router.any()` answers. */
+const ANY_METHODS = ["get", "post", "put", "patch", "delete"];
+
+/**
+ * Matcher sources that map to an OpenAPI schema more precise than a string.
+ */
+const PARAM_SCHEMAS: Record<string, OpenApiSchema> = {
+  "router.matchers.number()": { type: "integer" },
+  "router.matchers.uuid()": { type: "string", format: "uuid" },
+};
+
+export function createRouteTableEntry(
+  route: RouteRecord,
+  file: string,
+  handler: RouteTableHandler | null
+): RouteTableEntry {
+  return {
+    methods: route.methods,
+    url: route.url,
+    name: route.name,
+    middleware: route.middleware,
+    domain: route.domain,
+    file,
+    line: route.range.start.line + 1,
+    params: route.params,
+    handler,
+  };
+}
+
+export function formatRouteTable(
+  entries: RouteTableEntry[],
+  format: RouteExportFormat
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(entries, null, 2) + "\n";
+    case "markdown":
+      return toMarkdown(entries);
+    case "openapi":
+      return JSON.stringify(toOpenApi(entries), null, 2) + "\n";
+  }
+}
+
+function toMarkdown(entries: RouteTableEntry[]): string {
+  const lines = [
+    "| Method | URL | Name | Middleware | Domain | Handler |",
+    "| --- | --- | --- | --- | --- | --- |",
+  ];
+  for (const entry of entries) {
+    const handler = entry.handler;
+    const label = handler ? `${handler.controller}.${handler.method}` : "";
+    const cells = [
+      entry.methods.length > 0 ? entry.methods.join(", ") : "ANY",
+      code(entry.url),
+      entry.name ? code(entry.name) : "",
+      entry.middleware.map(code).join(", "),
+      entry.domain ? code(entry.domain) : "",
+      handler?.file ? `[${label}](${handler.file}#L${handler.line})` : label,
+    ];
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function code(text: string): string {
+  return "`" + text.replace(/\|/g, "\\|") + "`";
+}
+
+/**
+ * An OpenAPI 3 document listing every route under `paths`, with its path
+ * params. Optional params produce one path with and one without them.
+ */
+function toOpenApi(entries: RouteTableEntry[]): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+  const nameCounts = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.name) {
+      nameCounts.set(entry.name, (nameCounts.get(entry.name) || 0) + 1);
+    }
+  }
+
+  for (const entry of entries) {
+    const methods =
+      entry.methods.length === 0 || entry.methods.includes("ANY")
+        ? ANY_METHODS
+        : entry.methods.map((method) => method.toLowerCase());
+
+    const variants = getPathVariants(entry.url);
+    for (const [index, variant] of variants.entries()) {
+      const pathItem = (paths[variant.path] = paths[variant.path] || {});
+      for (const method of methods) {
+        // Operation ids must be unique across the document
+        const uniqueName =
+          entry.name &&
+          nameCounts.get(entry.name) === 1 &&
+          methods.length === 1 &&
+          index === 0;
+        pathItem[method] = {
+          operationId: uniqueName ? entry.name : undefined,
+          summary: entry.handler
+            ? `${entry.handler.controller}.${entry.handler.method}`
+            : undefined,
+          parameters: variant.params.map((name) => {
+            const param = entry.params.find(
+              (p) => p.name === name || (p.wildcard && name === "wildcard")
+            );
+            return {
+              name,
+              in: "path",
+              required: true,
+              schema: (param?.matcher &&
+                PARAM_SCHEMAS[param.matcher.replace(/\s/g, "")]) || {
+                type: "string",
+              },
+            };
+          }),
+          responses: { default: { description: "" } },
+          "x-adonis-middleware":
+            entry.middleware.length > 0 ? entry.middleware : undefined,
+          "x-adonis-domain": entry.domain,
+          "x-adonis-handler": entry.handler?.file
+            ? `${entry.handler.file}:${entry.handler.line}`
+            : undefined,
+        };
+      }
+    }
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: { title: "Routes", version: "1.0.0" },
+    paths,
+  };
+}
+
+/**
+ * Turns `/posts/:id/:slug?` into `/posts/{id}` and `/posts/{id}/{slug}`.
+ */
+function getPathVariants(url: string): { path: string; params: string[] }[] {
+  const variants = [{ segments: [] as string[], params: [] as string[] }];
+
+  for (const segment of url.split("/").filter(Boolean)) {
+    if (segment === "*") {
+      for (const variant of variants) {
+        variant.segments.push("{wildcard}");
+        variant.params.push("wildcard");
+      }
+    } else if (segment.startsWith(":")) {
+      const optional = segment.endsWith("?");
+      const name = segment.slice(1, optional ? -1 : undefined);
+      const withParam = variants.map((variant) => ({
+        segments: [...variant.segments, `{${name}}`],
+        params: [...variant.params, name],
+      }));
+      if (optional) {
+        variants.push(...withParam);
+      } else {
+        variants.splice(0, variants.length, ...withParam);
+      }
+    } else {
+      for (const variant of variants) variant.segments.push(segment);
+    }
+  }
+
+  return variants.map((variant) => ({
+    path: "/" + variant.segments.join("/"),
+    params: variant.params,
+  }));
+}
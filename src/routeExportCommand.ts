@@ -0,0 +1,140 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { findProjectRoot } from "./importResolver";
+import { sortByRegistrationOrder } from "./routeConflicts";
+import {
+  RouteExportFormat,
+  RouteTableEntry,
+  createRouteTableEntry,
+  formatRouteTable,
+} from "./routeExport";
+import { formatController } from "./routeFormat";
+import { RouteIndex } from "./routeIndex";
+import { RouteRecord } from "./routeParser";
+import { RouteTargets } from "./routeTargets";
+
+interface FormatQuickPickItem extends vscode.QuickPickItem {
+  format: RouteExportFormat;
+  extension: string;
+}
+
+const FORMATS: FormatQuickPickItem[] = [
+  {
+    label: "JSON",
+    description: "Every route with its handler location",
+    format: "json",
+    extension: "json",
+  },
+  {
+    label: "Markdown",
+    description: "A table linking to the controller methods",
+    format: "markdown",
+    extension: "md",
+  },
+  {
+    label: "OpenAPI",
+    description: "An OpenAPI 3 paths skeleton",
+    format: "openapi",
+    extension: "json",
+  },
+];
+
+/**
+ * Writes the route table of an app, in registration order, to a file picked
+ * by the user. Asks for the app when the workspace has several.
+ */
+export async function exportRouteTable(
+  routeIndex: RouteIndex,
+  routeTargets: RouteTargets
+) {
+  await routeIndex.initialize();
+
+  const projectRoot = await pickProjectRoot(routeIndex);
+  if (!projectRoot) return;
+
+  const format = await vscode.window.showQuickPick(FORMATS, {
+    placeHolder: "Export routes as",
+  });
+  if (!format) return;
+
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(
+      vscode.Uri.file(projectRoot),
+      format.format === "openapi"
+        ? "openapi.json"
+        : `routes.${format.extension}`
+    ),
+    filters: { [format.label]: [format.extension] },
+  });
+  if (!target) return;
+
+  const routes = sortByRegistrationOrder(
+    routeIndex.getRoutes(projectRoot),
+    (filePath) => routeIndex.getFileOrder(filePath)
+  );
+  const entries = routes.map((route) => toEntry(route, routeTargets));
+
+  await vscode.workspace.fs.writeFile(
+    target,
+    Buffer.from(formatRouteTable(entries, format.format), "utf8")
+  );
+
+  const choice = await vscode.window.showInformationMessage(
+    `Exported ${entries.length} routes to ${path.basename(target.fsPath)}.`,
+    "Open"
+  );
+  if (choice === "Open") {
+    await vscode.window.showTextDocument(target);
+  }
+}
+
+async function pickProjectRoot(
+  routeIndex: RouteIndex
+): Promise<string | undefined> {
+  const projectRoots = routeIndex.getProjectRoots();
+  if (projectRoots.length <= 1) {
+    return (
+      projectRoots[0] || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+    );
+  }
+
+  const item = await vscode.window.showQuickPick(
+    projectRoots.map((projectRoot) => ({
+      label: path.basename(projectRoot),
+      description: vscode.workspace.asRelativePath(projectRoot),
+      detail: `${routeIndex.getRoutes(projectRoot).length} routes`,
+      projectRoot,
+    })),
+    { placeHolder: "Export the routes of" }
+  );
+  return item?.projectRoot;
+}
+
+function toEntry(
+  route: RouteRecord,
+  routeTargets: RouteTargets
+): RouteTableEntry {
+  const projectRoot = findProjectRoot(route.filePath);
+  const relative = (filePath: string) =>
+    (projectRoot ? path.relative(projectRoot, filePath) : filePath)
+      .split(path.sep)
+      .join("/");
+
+  const handler = route.handler;
+  const controller = handler && formatController(handler);
+  const method = handler?.methodName || "handle";
+  const location = controller ? routeTargets.resolveLocation(route) : null;
+
+  return createRouteTableEntry(
+    route,
+    relative(route.filePath),
+    controller
+      ? {
+          controller,
+          method,
+          file: location ? relative(location.uri.fsPath) : undefined,
+          line: location ? location.range.start.line + 1 : undefined,
+        }
+      : null
+  );
+}
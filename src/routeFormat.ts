@@ -0,0 +1,58 @@
+import { HandlerInfo, RouteParam, RouteRecord } from "./routeParser";
+
+export function formatMethods(route: RouteRecord): string {
+  return route.methods.length > 0 ? route.methods.join("|") : "ANY";
+}
+
+/**
+ * Formats the full url of a route, prefixed with its domain when it is
+ * registered on one: `:tenant.example.com/users`.
+ */
+export function formatUrl(route: RouteRecord): string {
+  return route.domain ? `${route.domain}${route.url}` : route.url;
+}
+
+/**
+ * Formats a route as `VERB /full/url (name)`.
+ */
+export function formatRoute(route: RouteRecord): string {
+  const name = route.name ? ` (${route.name})` : "";
+  return `${formatMethods(route)} ${formatUrl(route)}${name}`;
+}
+
+/**
+ * Formats the controller of a handler as written: `UsersController`, or
+ * `controllers.users` when picked from a controller map.
+ */
+export function formatController(handler: HandlerInfo): string | null {
+  const controllerName = handler.controllerName || handler.variableName;
+  if (!controllerName) return null;
+  return handler.controllerMap
+    ? `${handler.controllerMap}.${controllerName}`
+    : controllerName;
+}
+
+/**
+ * Formats the handler of a route as `Controller.method`.
+ */
+export function formatHandler(route: RouteRecord): string | null {
+  const handler = route.handler;
+  if (!handler) return null;
+
+  const controllerName = formatController(handler);
+  if (!controllerName) return null;
+  return handler.methodName
+    ? `${controllerName}.${handler.methodName}`
+    : controllerName;
+}
+
+/**
+ * Formats a route param as written in patterns (`:id`, `:slug?`, `*`),
+ * followed by its `.where()` matcher.
+ */
+export function formatParam(param: RouteParam): string {
+  const name = param.wildcard ? "*" : `:${param.name}`;
+  const optional = param.optional && !param.wildcard ? "?" : "";
+  const matcher = param.matcher ? ` ${param.matcher}` : "";
+  return `${name}${optional}${matcher}`;
+}
@@ -0,0 +1,136 @@
+import * as vscode from "vscode";
+import * as ts from "typescript";
+import * as path from "path";
+import { getMethodDocumentation, getMethodSignature } from "./controllerParser";
+import { findProjectRoot } from "./importResolver";
+import { formatMethods, formatUrl } from "./routeFormat";
+import { RouteIndex } from "./routeIndex";
+import { RouteRecord, SourcePosition, containsPosition } from "./routeParser";
+import { RouteResolver } from "./routeResolver";
+import { RouteTargets } from "./routeTargets";
+import { ValidatorResolver } from "./validators";
+
+/**
+ * Hover cards on route handlers and resource names showing the controller
+ * method the route runs, the validators it validates the request with, and
+ * where the route is mounted.
+ */
+export class RouteHoverProvider implements vscode.HoverProvider {
+  constructor(
+    private routeIndex: RouteIndex,
+    private routeResolver: RouteResolver,
+    private routeTargets: RouteTargets,
+    private validatorResolver: ValidatorResolver
+  ) {}
+
+  provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.Hover> {
+    if (!this.routeIndex.isRoutesFile(document.fileName)) return null;
+
+    try {
+      const sourcePosition: SourcePosition = {
+        line: position.line,
+        character: position.character,
+      };
+      const routes = this.routeIndex
+        .getRoutesInFile(document.fileName)
+        .filter((route) => this.isHoverTarget(route, sourcePosition));
+      if (routes.length === 0) return null;
+
+      const markdown = new vscode.MarkdownString();
+      const renderedMethods = new Set<string>();
+      for (const route of routes) {
+        const target = this.routeTargets.resolveTarget(route);
+        const key = target && `${target.controllerPath}#${target.methodName}`;
+        if (target && key && !renderedMethods.has(key)) {
+          renderedMethods.add(key);
+          this.appendMethod(markdown, target.controllerPath, target.methodName);
+        }
+        this.appendRoute(markdown, route);
+      }
+
+      return new vscode.Hover(markdown);
+    } catch (error) {
+      console.error("AdonisJS Routes Goto Error:", error);
+      return null;
+    }
+  }
+
+  private isHoverTarget(route: RouteRecord, position: SourcePosition) {
+    if (route.resource) {
+      return containsPosition(route.resource.nameRange, position);
+    }
+    const handler = route.handler;
+    if (!handler) return false;
+    return [handler.methodRange, handler.controllerRange].some(
+      (range) => range && containsPosition(range, position)
+    );
+  }
+
+  private appendMethod(
+    markdown: vscode.MarkdownString,
+    controllerPath: string,
+    methodName: string
+  ) {
+    const projectRoot = findProjectRoot(controllerPath);
+
+    // Inherited methods are shown from the base controller declaring them
+    const method = this.routeResolver.findMethodDeclaration(
+      controllerPath,
+      methodName
+    );
+    if (method && ts.isMethodDeclaration(method.node)) {
+      markdown.appendCodeblock(
+        getMethodSignature(method.node, method.sourceFile),
+        "typescript"
+      );
+      const docs = getMethodDocumentation(method.node, method.sourceFile);
+      if (docs) markdown.appendMarkdown(`${docs}\n\n`);
+    } else if (!method) {
+      markdown.appendMarkdown(`*Method \`${methodName}\` not found*\n\n`);
+    }
+
+    const filePath = method ? method.sourceFile.fileName : controllerPath;
+    const relativePath = projectRoot
+      ? path.relative(projectRoot, filePath)
+      : filePath;
+    markdown.appendMarkdown(`\`${relativePath}\`\n\n`);
+    this.appendValidators(markdown, controllerPath, methodName, projectRoot);
+  }
+
+  /** Links to the `vine.compile(...)` of each validator the method uses. */
+  private appendValidators(
+    markdown: vscode.MarkdownString,
+    controllerPath: string,
+    methodName: string,
+    projectRoot: string | null
+  ) {
+    const validators = this.validatorResolver.findMethodValidators(
+      controllerPath,
+      methodName
+    );
+    if (validators.length === 0) return;
+
+    const links = validators.map(({ name, definition }) => {
+      if (!definition) return `\`${name}\``;
+      const { line, character } = definition.range.start;
+      const uri = vscode.Uri.file(definition.filePath).with({
+        fragment: `L${line + 1},${character + 1}`,
+      });
+      const title = projectRoot
+        ? path.relative(projectRoot, definition.filePath)
+        : definition.filePath;
+      return `[\`${name}\`](${uri} "${title}")`;
+    });
+    markdown.appendMarkdown(`Validators: ${links.join(", ")}\n\n`);
+  }
+
+  private appendRoute(markdown: vscode.MarkdownString, route: RouteRecord) {
+    const name = route.name ? ` · \`${route.name}\`` : "";
+    markdown.appendMarkdown(
+      `**${formatMethods(route)}** \`${formatUrl(route)}\`${name}\n\n`
+    );
+  }
+}
@@ -0,0 +1,428 @@
+import * as vscode from "vscode";
+import * as ts from "typescript";
+import * as path from "path";
+import * as fs from "fs";
+import { ADONISRC_FILE, readPreloadFiles } from "./adonisRc";
+import { ImportResolver, findProjectRoot } from "./importResolver";
+import { ParsedRoutesFile, RouteRecord, parseRoutesFile } from "./routeParser";
+import {
+  collectRoutes,
+  computeFileOrder,
+  definesRoutes,
+  getEntryPoints,
+  resolveRoutesModulePath,
+} from "./routeProject";
+
+export const ROUTES_FILES_SETTING = "adonisRoutesGoto.routesFiles";
+export const DEFAULT_ROUTES_FILES = [
+  "**/start/routes.ts",
+  "**/routes/**/*.ts",
+];
+const EXCLUDE_GLOB = "**/node_modules/**";
+const DOCUMENT_CHANGE_DELAY = 200;
+
+interface IndexedFile {
+  /** Document version the entry was built from, or null when read from disk. */
+  version: number | null;
+  sourceFile: ts.SourceFile;
+  parsed: ParsedRoutesFile;
+  /** The app the file belongs to, see `findProjectRoot`. */
+  projectRoot: string;
+}
+
+/**
+ * Keeps a parsed model of every routes file in the workspace. Files are parsed
+ * once and re-parsed only when they change on disk or in an open editor.
+ *
+ * Routes files are the files matching the `adonisRoutesGoto.routesFiles`
+ * globs of each workspace folder, plus the modules preloaded by an
+ * `adonisrc.ts` that declare routes. Each AdonisJS app (the nearest directory
+ * with an `adonisrc.ts`) gets its own route list and registration order, so
+ * the apps of a monorepo do not see each other's routes.
+ */
+export class RouteIndex implements vscode.Disposable {
+  private files = new Map<string, IndexedFile>();
+  /** Files matching the routes file globs, indexed even without routes. */
+  private routesFiles = new Set<string>();
+  /** Preloaded modules of every app, indexed only when they declare routes. */
+  private preloadFiles = new Set<string>();
+  private preloadsByRoot = new Map<string, string[]>();
+  private routes: RouteRecord[] = [];
+  private routesByRoot = new Map<string, RouteRecord[]>();
+  /** Registration order of the files of each app. */
+  private fileOrderByRoot = new Map<string, Map<string, number>>();
+  private ready: Promise<void> | null = null;
+  /** Incremented by each scan, so that only the latest one is kept. */
+  private scanGeneration = 0;
+  private pendingUpdates = new Map<string, NodeJS.Timeout>();
+  private disposables: vscode.Disposable[] = [];
+  /** Watchers of the last scan, replaced on refresh. */
+  private watchers: vscode.Disposable[] = [];
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private importResolver: ImportResolver) {}
+
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.scanWorkspace();
+      this.listen();
+    }
+    return this.ready;
+  }
+
+  /**
+   * Re-reads every routes file from scratch, picking up changed settings,
+   * workspace folders and `adonisrc.ts` preloads.
+   */
+  async refresh(): Promise<void> {
+    await this.initialize();
+    this.ready = this.scanWorkspace();
+    return this.ready;
+  }
+
+  /**
+   * Routes of every app, or of the app rooted at `projectRoot`.
+   */
+  getRoutes(projectRoot?: string): RouteRecord[] {
+    if (projectRoot === undefined) return this.routes;
+    return this.routesByRoot.get(projectRoot) || [];
+  }
+
+  /**
+   * Routes visible from a file: those of its app, or of every app when the
+   * file belongs to none of them (e.g. a shared package of a monorepo).
+   */
+  getRoutesForFile(filePath: string): RouteRecord[] {
+    const projectRoot = findProjectRoot(filePath);
+    return projectRoot && this.routesByRoot.has(projectRoot)
+      ? this.getRoutes(projectRoot)
+      : this.routes;
+  }
+
+  /** Roots of the apps with at least one routes file, sorted. */
+  getProjectRoots(): string[] {
+    return Array.from(this.routesByRoot.keys()).sort();
+  }
+
+  /**
+   * Whether a file is indexed as a routes file: it matches the routes file
+   * globs or is a preloaded module declaring routes.
+   */
+  isRoutesFile(filePath: string): boolean {
+    return this.routesFiles.has(filePath) || this.files.has(filePath);
+  }
+
+  getRoutesInFile(filePath: string): RouteRecord[] {
+    return this.routes.filter((route) => route.filePath === filePath);
+  }
+
+  getIndexedFiles(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  getIndexedSourceFile(filePath: string): ts.SourceFile | undefined {
+    return this.files.get(filePath)?.sourceFile;
+  }
+
+  /**
+   * Position of a routes file in the order AdonisJS evaluates the files of
+   * its app: for each preload (or `start/routes.ts`), the modules it imports
+   * first (depth first, as ES modules are), then the file itself. Files
+   * nothing imports come last. Positions only compare within an app.
+   */
+  getFileOrder(filePath: string): number {
+    const projectRoot = this.files.get(filePath)?.projectRoot;
+    const fileOrder =
+      projectRoot !== undefined && this.fileOrderByRoot.get(projectRoot);
+    if (!fileOrder) return 0;
+    return fileOrder.get(filePath) ?? fileOrder.size;
+  }
+
+  /**
+   * Returns the parsed source of a routes document: the indexed tree while it
+   * matches the document, a fresh parse of the document otherwise. Requests
+   * do not re-index the document, edits reach the index (and rebuild the
+   * routes) through the debounced document update only.
+   */
+  getSourceFile(document: vscode.TextDocument): ts.SourceFile {
+    const indexed = this.files.get(document.fileName);
+    const text = document.getText();
+    if (
+      indexed &&
+      (indexed.version === document.version || indexed.sourceFile.text === text)
+    ) {
+      return indexed.sourceFile;
+    }
+
+    return ts.createSourceFile(
+      document.fileName,
+      text,
+      ts.ScriptTarget.Latest,
+      true
+    );
+  }
+
+  dispose() {
+    for (const timer of this.pendingUpdates.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingUpdates.clear();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+    this.watchers.forEach((disposable) => disposable.dispose());
+    this.watchers = [];
+    this.changeEmitter.dispose();
+  }
+
+  private async scanWorkspace(): Promise<void> {
+    const generation = ++this.scanGeneration;
+    const routesFiles = new Set<string>();
+    const adonisRcFiles: string[] = [];
+    const watchers: vscode.Disposable[] = [];
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      for (const glob of getRoutesFileGlobs(folder)) {
+        const pattern = new vscode.RelativePattern(folder, glob);
+        for (const uri of await vscode.workspace.findFiles(
+          pattern,
+          EXCLUDE_GLOB
+        )) {
+          routesFiles.add(uri.fsPath);
+        }
+        watchers.push(this.watchRoutesFiles(pattern));
+      }
+
+      const adonisRcPattern = new vscode.RelativePattern(
+        folder,
+        `**/${ADONISRC_FILE}`
+      );
+      for (const uri of await vscode.workspace.findFiles(
+        adonisRcPattern,
+        EXCLUDE_GLOB
+      )) {
+        adonisRcFiles.push(uri.fsPath);
+      }
+      // New apps and edited preloads change which files are routes files
+      const adonisRcWatcher =
+        vscode.workspace.createFileSystemWatcher(adonisRcPattern);
+      watchers.push(
+        adonisRcWatcher,
+        adonisRcWatcher.onDidCreate(() => this.refresh()),
+        adonisRcWatcher.onDidChange(() => this.refresh()),
+        adonisRcWatcher.onDidDelete(() => this.refresh())
+      );
+    }
+
+    const preloadsByRoot = new Map<string, string[]>();
+    for (const rcPath of adonisRcFiles) {
+      const projectRoot = path.dirname(rcPath);
+      preloadsByRoot.set(
+        projectRoot,
+        readPreloadFiles(projectRoot, this.importResolver)
+      );
+    }
+    const preloadFiles = new Set(Array.from(preloadsByRoot.values()).flat());
+    for (const filePath of preloadFiles) {
+      if (routesFiles.has(filePath)) continue;
+      const pattern = new vscode.RelativePattern(
+        path.dirname(filePath),
+        path.basename(filePath)
+      );
+      watchers.push(this.watchRoutesFiles(pattern));
+    }
+
+    // A later refresh started while the files were being listed: keep its
+    // results rather than overwriting them with older ones
+    if (generation !== this.scanGeneration) {
+      watchers.forEach((disposable) => disposable.dispose());
+      return this.ready!;
+    }
+
+    console.log(
+      "Indexing routes files:",
+      routesFiles.size,
+      "apps:",
+      preloadsByRoot.size
+    );
+
+    this.watchers.forEach((disposable) => disposable.dispose());
+    this.watchers = watchers;
+    this.routesFiles = routesFiles;
+    this.preloadFiles = preloadFiles;
+    this.preloadsByRoot = preloadsByRoot;
+    this.files.clear();
+    for (const filePath of [...routesFiles, ...preloadFiles]) {
+      this.refreshFile(filePath, false);
+    }
+    this.rebuild();
+  }
+
+  private watchRoutesFiles(pattern: vscode.RelativePattern): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    return vscode.Disposable.from(
+      watcher,
+      watcher.onDidCreate((uri) => {
+        if (!this.preloadFiles.has(uri.fsPath)) {
+          this.routesFiles.add(uri.fsPath);
+        }
+        this.refreshFile(uri.fsPath);
+      }),
+      watcher.onDidChange((uri) => this.refreshFile(uri.fsPath)),
+      watcher.onDidDelete((uri) => {
+        this.routesFiles.delete(uri.fsPath);
+        this.removeFile(uri.fsPath);
+      })
+    );
+  }
+
+  private listen() {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.scheduleDocumentUpdate(event.document)
+      ),
+      // Unsaved edits are discarded when a document is closed without saving
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        if (this.isTrackedFile(document.fileName)) {
+          this.refreshFile(document.fileName);
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration(ROUTES_FILES_SETTING)) {
+          this.refresh();
+        }
+      })
+    );
+  }
+
+  /** Routes files, and preloaded modules that may start declaring routes. */
+  private isTrackedFile(filePath: string): boolean {
+    return this.routesFiles.has(filePath) || this.preloadFiles.has(filePath);
+  }
+
+  private scheduleDocumentUpdate(document: vscode.TextDocument) {
+    const filePath = document.fileName;
+    if (document.uri.scheme !== "file" || !this.isTrackedFile(filePath)) {
+      return;
+    }
+
+    const pending = this.pendingUpdates.get(filePath);
+    if (pending) clearTimeout(pending);
+
+    this.pendingUpdates.set(
+      filePath,
+      setTimeout(() => {
+        this.pendingUpdates.delete(filePath);
+        if (this.files.get(filePath)?.version === document.version) return;
+        this.indexText(filePath, document.getText(), document.version);
+        this.rebuild();
+      }, DOCUMENT_CHANGE_DELAY)
+    );
+  }
+
+  private refreshFile(filePath: string, rebuild = true) {
+    if (!this.isTrackedFile(filePath)) return;
+
+    const openDocument = vscode.workspace.textDocuments.find(
+      (doc) => doc.fileName === filePath && !doc.isClosed
+    );
+    if (openDocument) {
+      this.indexText(filePath, openDocument.getText(), openDocument.version);
+    } else {
+      this.indexFromDisk(filePath);
+    }
+    if (rebuild) this.rebuild();
+  }
+
+  private removeFile(filePath: string) {
+    if (this.files.delete(filePath)) {
+      this.rebuild();
+    }
+  }
+
+  private indexFromDisk(filePath: string) {
+    try {
+      const text = fs.readFileSync(filePath, "utf8");
+      this.indexText(filePath, text, null);
+    } catch (error) {
+      console.error("Failed to index routes file:", filePath, error);
+      this.files.delete(filePath);
+    }
+  }
+
+  private indexText(
+    filePath: string,
+    text: string,
+    version: number | null
+  ): ts.SourceFile {
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      text,
+      ts.ScriptTarget.Latest,
+      true
+    );
+    const parsed = parseRoutesFile(sourceFile);
+    if (!this.routesFiles.has(filePath) && !definesRoutes(parsed)) {
+      this.files.delete(filePath);
+      return sourceFile;
+    }
+
+    this.files.set(filePath, {
+      version,
+      sourceFile,
+      parsed,
+      projectRoot:
+        findProjectRoot(filePath) ||
+        vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri
+          .fsPath ||
+        path.dirname(filePath),
+    });
+    return sourceFile;
+  }
+
+  /**
+   * Rebuilds the route list and registration order of each app separately;
+   * mounts and imports across apps are not followed.
+   */
+  private rebuild() {
+    const filesByRoot = new Map<string, Map<string, IndexedFile>>();
+    for (const [filePath, file] of this.files) {
+      const files = filesByRoot.get(file.projectRoot) || new Map();
+      files.set(filePath, file);
+      filesByRoot.set(file.projectRoot, files);
+    }
+
+    this.routes = [];
+    this.routesByRoot.clear();
+    this.fileOrderByRoot.clear();
+    for (const [projectRoot, files] of filesByRoot) {
+      const resolveModule = (importPath: string, fromFile: string) =>
+        resolveRoutesModulePath(
+          importPath,
+          fromFile,
+          files,
+          this.importResolver
+        );
+      const routes = collectRoutes(files, resolveModule);
+      const entryPoints = getEntryPoints(
+        files,
+        this.preloadsByRoot.get(projectRoot) || []
+      );
+      const fileOrder = computeFileOrder(files, resolveModule, entryPoints);
+
+      this.routes.push(...routes);
+      this.routesByRoot.set(projectRoot, routes);
+      this.fileOrderByRoot.set(projectRoot, fileOrder);
+    }
+    this.changeEmitter.fire();
+  }
+}
+
+function getRoutesFileGlobs(folder: vscode.WorkspaceFolder): string[] {
+  const globs = vscode.workspace
+    .getConfiguration(undefined, folder.uri)
+    .get<string[]>(ROUTES_FILES_SETTING, DEFAULT_ROUTES_FILES);
+  return globs.length > 0 ? globs : DEFAULT_ROUTES_FILES;
+}
@@ -0,0 +1,399 @@
+import * as vscode from "vscode";
+import {
+  formatHandler,
+  formatMethods,
+  formatParam,
+  formatUrl,
+} from "./routeFormat";
+import { RouteIndex } from "./routeIndex";
+import { DIAGNOSTIC_SOURCE, RouteDiagnosticCode } from "./routeChecks";
+import {
+  RouteNameReference,
+  findRouteNameReferences,
+} from "./routeNameReferences";
+import { toVscodeRange } from "./routeNavigation";
+import {
+  RouteRecord,
+  SourcePosition,
+  SourceRange,
+  containsPosition,
+} from "./routeParser";
+
+/**
+ * Links the route names passed to `router.builder().make()`,
+ * `response.redirect().toRoute()` and the Edge `route()` / `signedRoute()`
+ * helpers back to the routes declaring them, and checks the params passed
+ * along against the route patterns.
+ */
+export class RouteNameProvider
+  implements
+    vscode.DefinitionProvider,
+    vscode.HoverProvider,
+    vscode.CompletionItemProvider,
+    vscode.Disposable
+{
+  private collection = vscode.languages.createDiagnosticCollection(
+    "adonisjs-route-names"
+  );
+  private pending = new Map<string, NodeJS.Timeout>();
+  /** Parsed references per document, valid for the version they were read at. */
+  private references = new Map<
+    string,
+    { version: number; references: RouteNameReference[] }
+  >();
+  /** Hidden documents to re-check once they are shown again. */
+  private stale = new Set<string>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private routeIndex: RouteIndex) {
+    this.disposables.push(
+      this.collection,
+      routeIndex.onDidChange(() => this.refresh()),
+      vscode.workspace.onDidOpenTextDocument((document) =>
+        this.diagnose(document)
+      ),
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.scheduleDiagnose(event.document)
+      ),
+      vscode.window.onDidChangeVisibleTextEditors((editors) => {
+        for (const { document } of editors) {
+          if (this.stale.delete(document.uri.toString())) {
+            this.diagnose(document);
+          }
+        }
+      }),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        const key = document.uri.toString();
+        this.references.delete(key);
+        this.stale.delete(key);
+        this.collection.delete(document.uri);
+      })
+    );
+  }
+
+  provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.Location[]> {
+    const reference = this.findReference(document, position);
+    if (!reference) return null;
+
+    return this.getRoutesByName(document)
+      .get(reference.name)
+      ?.map(
+        (route) =>
+          new vscode.Location(
+            vscode.Uri.file(route.filePath),
+            toVscodeRange(route.nameRange || route.range)
+          )
+      );
+  }
+
+  provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.Hover> {
+    const reference = this.findReference(document, position);
+    const routes =
+      reference && this.getRoutesByName(document).get(reference.name);
+    if (!reference || !routes) return null;
+
+    const markdown = new vscode.MarkdownString();
+    for (const route of routes) {
+      const handler = formatHandler(route);
+      const suffix = handler ? ` → \`${handler}\`` : "";
+      markdown.appendMarkdown(
+        `**${formatMethods(route)}** \`${formatUrl(route)}\`${suffix}\n\n`
+      );
+      if (route.params.length > 0) {
+        const params = route.params
+          .map((param) => `\`${formatParam(param)}\``)
+          .join(", ");
+        markdown.appendMarkdown(`Params: ${params}\n\n`);
+      }
+      if (route.domainParams.length > 0) {
+        const params = route.domainParams
+          .map((param) => `\`${formatParam(param)}\``)
+          .join(", ");
+        markdown.appendMarkdown(`Domain params: ${params}\n\n`);
+      }
+    }
+    return new vscode.Hover(markdown, toVscodeRange(reference.range));
+  }
+
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.CompletionItem[]> {
+    const paramsReference = this.findParamsReference(document, position);
+    if (paramsReference) {
+      return this.completeParams(document, paramsReference);
+    }
+
+    const reference = this.findReference(document, position);
+    if (!reference) return null;
+
+    const range = toVscodeRange(reference.range);
+    const items: vscode.CompletionItem[] = [];
+    for (const [name, routes] of this.getRoutesByName(document)) {
+      const item = new vscode.CompletionItem(
+        name,
+        vscode.CompletionItemKind.Reference
+      );
+      item.detail = `${formatMethods(routes[0])} ${formatUrl(routes[0])}`;
+      item.range = range;
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Offers the params of the named route that are not passed yet.
+   */
+  private completeParams(
+    document: vscode.TextDocument,
+    reference: RouteNameReference
+  ): vscode.CompletionItem[] {
+    const routes =
+      this.getRoutesByName(document).get(reference.name) || [];
+    const passed = new Set(reference.params!.keys.map((key) => key.name));
+
+    const items = new Map<string, vscode.CompletionItem>();
+    for (const param of routes.flatMap((route) => route.params)) {
+      if (passed.has(param.name) || items.has(param.name)) continue;
+
+      const item = new vscode.CompletionItem(
+        param.name,
+        vscode.CompletionItemKind.Property
+      );
+      // Wildcard segments are passed as `'*': [...]`
+      if (param.wildcard) item.insertText = "'*'";
+      item.detail = formatParam(param);
+      item.sortText = `${param.optional ? 1 : 0}${items.size}`;
+      items.set(param.name, item);
+    }
+    return Array.from(items.values());
+  }
+
+  /**
+   * Re-checks the visible documents, e.g. after the route index changed. The
+   * other open documents are re-checked when they are shown.
+   */
+  refresh() {
+    const visible = new Set(
+      vscode.window.visibleTextEditors.map(({ document }) => document)
+    );
+    for (const document of vscode.workspace.textDocuments) {
+      if (!isSupportedDocument(document)) continue;
+      if (visible.has(document)) {
+        this.diagnose(document);
+      } else {
+        this.stale.add(document.uri.toString());
+      }
+    }
+  }
+
+  dispose() {
+    this.pending.forEach((timeout) => clearTimeout(timeout));
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private scheduleDiagnose(document: vscode.TextDocument) {
+    const key = document.uri.toString();
+    clearTimeout(this.pending.get(key));
+    this.pending.set(
+      key,
+      setTimeout(() => {
+        this.pending.delete(key);
+        this.diagnose(document);
+      }, 200)
+    );
+  }
+
+  private diagnose(document: vscode.TextDocument) {
+    if (!isSupportedDocument(document)) return;
+    this.stale.delete(document.uri.toString());
+
+    // Without any route in the document's app every name would look unknown
+    const routesByName = this.getRoutesByName(document);
+    if (routesByName.size === 0) {
+      this.collection.delete(document.uri);
+      return;
+    }
+
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const reference of this.getReferences(document)) {
+      const routes = routesByName.get(reference.name);
+      if (!routes) {
+        diagnostics.push(
+          createDiagnostic(
+            reference.range,
+            `No route is named '${reference.name}'.`,
+            RouteDiagnosticCode.UnknownRouteName
+          )
+        );
+        continue;
+      }
+      diagnostics.push(...this.diagnoseParams(reference, routes));
+    }
+    this.collection.set(document.uri, diagnostics);
+  }
+
+  /**
+   * Reports required params that are not passed and passed params that the
+   * route does not declare. A name shared by several routes (a module
+   * mounted more than once) is only reported when every route disagrees.
+   */
+  private diagnoseParams(
+    reference: RouteNameReference,
+    routes: RouteRecord[]
+  ): vscode.Diagnostic[] {
+    const params = reference.params;
+    if (params && !params.static) return [];
+
+    const diagnostics: vscode.Diagnostic[] = [];
+    const passed = new Set(params?.keys.map((key) => key.name));
+
+    const missing = routes[0].params.filter(
+      (param) =>
+        !param.optional &&
+        !passed.has(param.name) &&
+        routes.every((route) =>
+          route.params.some((p) => p.name === param.name && !p.optional)
+        )
+    );
+    if (missing.length > 0) {
+      const names = missing.map((param) => `'${param.name}'`).join(", ");
+      diagnostics.push(
+        createDiagnostic(
+          params?.range || reference.range,
+          `Route '${reference.name}' requires ${
+            missing.length > 1 ? "params" : "param"
+          } ${names}.`,
+          RouteDiagnosticCode.MissingRouteParam
+        )
+      );
+    }
+
+    for (const key of params?.keys || []) {
+      const known = routes.some((route) =>
+        route.params.some((param) => param.name === key.name)
+      );
+      if (!known) {
+        diagnostics.push(
+          createDiagnostic(
+            key.range,
+            `Route '${reference.name}' has no param '${key.name}' (${routes[0].url}).`,
+            RouteDiagnosticCode.UnknownRouteParam
+          )
+        );
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private findReference(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): RouteNameReference | null {
+    if (!isSupportedDocument(document)) return null;
+    return (
+      this.getReferences(document).find((reference) =>
+        containsPosition(reference.range, position)
+      ) || null
+    );
+  }
+
+  /**
+   * The reference whose params object contains the position (between the
+   * braces).
+   */
+  private findParamsReference(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): RouteNameReference | null {
+    if (!isSupportedDocument(document)) return null;
+    return (
+      this.getReferences(document).find((reference) => {
+        const range = reference.params?.static && reference.params.range;
+        return (
+          range &&
+          containsPosition(range, position) &&
+          !isSamePosition(range.start, position) &&
+          !isSamePosition(range.end, position)
+        );
+      }) || null
+    );
+  }
+
+  private getReferences(document: vscode.TextDocument): RouteNameReference[] {
+    const key = document.uri.toString();
+    const cached = this.references.get(key);
+    if (cached && cached.version === document.version) {
+      return cached.references;
+    }
+
+    let references: RouteNameReference[];
+    try {
+      references = findRouteNameReferences(
+        document.fileName,
+        document.getText()
+      );
+    } catch (error) {
+      console.error("AdonisJS Routes Goto Error:", error);
+      references = [];
+    }
+    this.references.set(key, { version: document.version, references });
+    return references;
+  }
+
+  /**
+   * Named routes of the document's app keyed by name. Routes of a module
+   * mounted several times share their declaration and are listed once.
+   */
+  private getRoutesByName(
+    document: vscode.TextDocument
+  ): Map<string, RouteRecord[]> {
+    const routesByName = new Map<string, RouteRecord[]>();
+    const seen = new Set<string>();
+    for (const route of this.routeIndex.getRoutesForFile(document.fileName)) {
+      if (!route.name) continue;
+      const key = `${route.name}#${route.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const routes = routesByName.get(route.name) || [];
+      routes.push(route);
+      routesByName.set(route.name, routes);
+    }
+    return routesByName;
+  }
+}
+
+function isSupportedDocument(document: vscode.TextDocument): boolean {
+  return (
+    document.uri.scheme === "file" &&
+    (document.languageId === "typescript" ||
+      document.fileName.endsWith(".edge"))
+  );
+}
+
+function isSamePosition(a: SourcePosition, b: vscode.Position): boolean {
+  return a.line === b.line && a.character === b.character;
+}
+
+function createDiagnostic(
+  range: SourceRange,
+  message: string,
+  code: RouteDiagnosticCode
+): vscode.Diagnostic {
+  const diagnostic = new vscode.Diagnostic(
+    toVscodeRange(range),
+    message,
+    vscode.DiagnosticSeverity.Warning
+  );
+  diagnostic.source = DIAGNOSTIC_SOURCE;
+  diagnostic.code = code;
+  return diagnostic;
+}
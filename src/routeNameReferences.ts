@@ -0,0 +1,267 @@
+import * as ts from "typescript";
+import { SourcePosition, SourceRange } from "./routeParser";
+
+export interface RouteParamKey {
+  name: string;
+  range: SourceRange;
+}
+
+export interface RouteParamsArgument {
+  keys: RouteParamKey[];
+  /** Range of the params object, braces included. */
+  range: SourceRange;
+  /**
+   * False when the keys cannot all be read statically: spreads, computed keys,
+   * positional arrays or variables.
+   */
+  static: boolean;
+}
+
+export interface RouteNameReference {
+  name: string;
+  /** Range of the name inside the quotes. */
+  range: SourceRange;
+  /** The params passed along with the name, if any. */
+  params?: RouteParamsArgument;
+}
+
+/** Methods taking a route name as their first argument. */
+const BUILDER_METHODS = ["make", "makeSigned"];
+const REDIRECT_METHODS = ["toRoute"];
+const ROUTER_METHODS = ["makeUrl", "makeSignedUrl"];
+/** Cheap check for any of those calls, before parsing the module. */
+const ROUTE_NAME_CALL = /\.(make|makeSigned|toRoute|makeUrl|makeSignedUrl)\s*\(/;
+/** Global helpers taking a route name in Edge templates. */
+const TEMPLATE_HELPERS = /\b(route|signedRoute)\(\s*(['"`])([^'"`\n]*)/g;
+
+/**
+ * Finds the route names referenced in a TypeScript module or an Edge template.
+ */
+export function findRouteNameReferences(
+  fileName: string,
+  text: string
+): RouteNameReference[] {
+  return fileName.endsWith(".edge")
+    ? findTemplateReferences(text)
+    : findModuleReferences(fileName, text);
+}
+
+/**
+ * `router.builder().make('users.show')`,
+ * `response.redirect().toRoute('users.show')` and
+ * `router.makeUrl('users.show')`.
+ */
+function findModuleReferences(
+  fileName: string,
+  text: string
+): RouteNameReference[] {
+  if (!ROUTE_NAME_CALL.test(text)) return [];
+
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const references: RouteNameReference[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.arguments.length > 0 &&
+      ts.isStringLiteralLike(node.arguments[0]) &&
+      isRouteNameCall(node.expression)
+    ) {
+      const literal = node.arguments[0];
+      const start = literal.getStart(sourceFile) + 1;
+      // `.make(name, params)` or `.params(params).make(name)`
+      const paramsArg =
+        node.arguments[1] ||
+        findChainedParams(node.expression.expression);
+      references.push({
+        name: literal.text,
+        range: {
+          start: sourceFile.getLineAndCharacterOfPosition(start),
+          end: sourceFile.getLineAndCharacterOfPosition(
+            start + literal.text.length
+          ),
+        },
+        params:
+          paramsArg &&
+          readParamsArgument(paramsArg, sourceFile, (offset) =>
+            sourceFile.getLineAndCharacterOfPosition(offset)
+          ),
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return references;
+}
+
+function isRouteNameCall(callee: ts.PropertyAccessExpression): boolean {
+  const method = callee.name.text;
+  if (ROUTER_METHODS.includes(method)) {
+    return (
+      ts.isIdentifier(callee.expression) && callee.expression.text === "router"
+    );
+  }
+  if (BUILDER_METHODS.includes(method)) {
+    return receiverChainIncludes(callee.expression, [
+      "builder",
+      "builderForDomain",
+    ]);
+  }
+  if (REDIRECT_METHODS.includes(method)) {
+    return receiverChainIncludes(callee.expression, ["redirect"]);
+  }
+  return false;
+}
+
+/**
+ * Whether a call to one of the given methods appears in a receiver chain
+ * like `router.builder().params({...}).qs({...})`.
+ */
+function receiverChainIncludes(expr: ts.Expression, methods: string[]) {
+  let current: ts.Expression = expr;
+  while (ts.isCallExpression(current)) {
+    const callee = current.expression;
+    if (!ts.isPropertyAccessExpression(callee)) return false;
+    if (methods.includes(callee.name.text)) return true;
+    current = callee.expression;
+  }
+  // `redirect` is also reached as a property: response.redirect.toRoute()
+  return (
+    ts.isPropertyAccessExpression(current) &&
+    methods.includes(current.name.text)
+  );
+}
+
+function findChainedParams(expr: ts.Expression): ts.Expression | undefined {
+  let current: ts.Expression = expr;
+  while (
+    ts.isCallExpression(current) &&
+    ts.isPropertyAccessExpression(current.expression)
+  ) {
+    if (current.expression.name.text === "params") {
+      return current.arguments[0];
+    }
+    current = current.expression.expression;
+  }
+  return undefined;
+}
+
+function readParamsArgument(
+  expr: ts.Expression,
+  sourceFile: ts.SourceFile,
+  toPosition: (offset: number) => SourcePosition
+): RouteParamsArgument {
+  const toRange = (start: number, end: number): SourceRange => ({
+    start: toPosition(start),
+    end: toPosition(end),
+  });
+  const argument: RouteParamsArgument = {
+    keys: [],
+    range: toRange(expr.getStart(sourceFile), expr.getEnd()),
+    static: ts.isObjectLiteralExpression(expr),
+  };
+  if (!ts.isObjectLiteralExpression(expr)) return argument;
+
+  for (const property of expr.properties) {
+    const name =
+      (ts.isPropertyAssignment(property) ||
+        ts.isShorthandPropertyAssignment(property)) &&
+      (ts.isIdentifier(property.name) || ts.isStringLiteralLike(property.name))
+        ? property.name
+        : null;
+    if (!name) {
+      argument.static = false;
+      continue;
+    }
+    argument.keys.push({
+      name: name.text,
+      range: toRange(name.getStart(sourceFile), name.getEnd()),
+    });
+  }
+  return argument;
+}
+
+/**
+ * `route('users.show')` and `signedRoute('users.show')` in Edge templates.
+ */
+function findTemplateReferences(text: string): RouteNameReference[] {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") lineStarts.push(i + 1);
+  }
+  const toPosition = (offset: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+      line++;
+    }
+    return { line, character: offset - lineStarts[line] };
+  };
+
+  const references: RouteNameReference[] = [];
+  for (const match of text.matchAll(TEMPLATE_HELPERS)) {
+    const name = match[3];
+    const start = match.index! + match[0].length - name.length;
+    references.push({
+      name,
+      range: { start: toPosition(start), end: toPosition(start + name.length) },
+      params: findTemplateParams(text, start + name.length + 1, toPosition),
+    });
+  }
+  return references;
+}
+
+/**
+ * Reads the params object following the route name in
+ * `route('posts.show', { id: post.id })`.
+ */
+function findTemplateParams(
+  text: string,
+  offset: number,
+  toPosition: (offset: number) => SourcePosition
+): RouteParamsArgument | undefined {
+  const separator = /^\s*,\s*/.exec(text.slice(offset));
+  if (!separator) return undefined;
+
+  const start = offset + separator[0].length;
+  if (text[start] !== "{") {
+    const end = Math.max(start, text.indexOf(")", start));
+    return {
+      keys: [],
+      range: { start: toPosition(start), end: toPosition(end) },
+      static: false,
+    };
+  }
+
+  let depth = 0;
+  let end = start;
+  for (; end < text.length; end++) {
+    if (text[end] === "{") depth++;
+    if (text[end] === "}" && --depth === 0) break;
+  }
+
+  // Parse the object on its own, shifting positions back into the template
+  const snippet = ts.createSourceFile(
+    "params.ts",
+    `(${text.slice(start, end + 1)})`,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const statement = snippet.statements[0];
+  if (
+    !statement ||
+    !ts.isExpressionStatement(statement) ||
+    !ts.isParenthesizedExpression(statement.expression)
+  ) {
+    return undefined;
+  }
+  return readParamsArgument(statement.expression.expression, snippet, (o) =>
+    toPosition(start + o - 1)
+  );
+}
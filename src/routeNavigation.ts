@@ -0,0 +1,44 @@
+import * as vscode from "vscode";
+import { formatUrl } from "./routeFormat";
+import { RouteRecord, SourceRange } from "./routeParser";
+import { SourceLocation } from "./routeResolver";
+import { RouteTargets } from "./routeTargets";
+
+export function toVscodeRange(range: SourceRange): vscode.Range {
+  return new vscode.Range(
+    range.start.line,
+    range.start.character,
+    range.end.line,
+    range.end.character
+  );
+}
+
+export function toLocation(location: SourceLocation): vscode.Location {
+  return new vscode.Location(
+    vscode.Uri.file(location.filePath),
+    toVscodeRange(location.range)
+  );
+}
+
+export async function openRoute(route: RouteRecord) {
+  await vscode.window.showTextDocument(vscode.Uri.file(route.filePath), {
+    selection: toVscodeRange(route.patternRange),
+  });
+}
+
+export async function openRouteHandler(
+  route: RouteRecord,
+  routeTargets: RouteTargets
+) {
+  const location = routeTargets.resolveLocation(route);
+  if (!location) {
+    vscode.window.showWarningMessage(
+      `Could not resolve the controller for ${formatUrl(route)}`
+    );
+    return;
+  }
+
+  await vscode.window.showTextDocument(location.uri, {
+    selection: location.range,
+  });
+}
@@ -0,0 +1,1148 @@
+import * as ts from "typescript";
+
+/**
+ * Router methods that register routes (or groups of routes) on the AdonisJS router.
+ */
+export const ROUTER_METHODS = [
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+  "any",
+  "route",
+  "resource",
+  "shallowResource",
+  "group",
+];
+
+/**
+ * The RESTful actions registered by `router.resource()`, in registration order.
+ */
+export const RESOURCE_ACTIONS: {
+  action: string;
+  methods: string[];
+  suffix: string;
+  member: boolean;
+}[] = [
+  { action: "index", methods: ["GET"], suffix: "", member: false },
+  { action: "create", methods: ["GET"], suffix: "/create", member: false },
+  { action: "store", methods: ["POST"], suffix: "", member: false },
+  { action: "show", methods: ["GET"], suffix: "", member: true },
+  { action: "edit", methods: ["GET"], suffix: "/edit", member: true },
+  { action: "update", methods: ["PUT", "PATCH"], suffix: "", member: true },
+  { action: "destroy", methods: ["DELETE"], suffix: "", member: true },
+];
+
+/** Actions dropped by `.apiOnly()`, since they only render forms. */
+const FORM_ACTIONS = ["create", "edit"];
+
+export interface SourcePosition {
+  line: number;
+  character: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * The forms a route handler can take:
+ * - `controller`: `[UsersController, 'index']`, or `[UsersController]`
+ * - `controller_variable`: `UsersController`
+ * - `controller_import`: `[() => import('#controllers/users_controller'), 'index']`
+ * - `controller_string`: `'#controllers/users_controller.index'`
+ * - `controller_map`: `[controllers.users, 'index']`, picked from an object
+ *   of lazy imports declared in the routes file or imported into it
+ */
+export interface HandlerInfo {
+  type:
+    | "controller"
+    | "controller_variable"
+    | "controller_import"
+    | "controller_string"
+    | "controller_map";
+  /**
+   * The controller class, derived from the file name for the import forms,
+   * or the key of a controller map.
+   */
+  controllerName?: string;
+  variableName?: string;
+  methodName?: string;
+  /** The module the controller is imported from, when known. */
+  importPath?: string;
+  /** The object a `controller_map` handler picks its controller from. */
+  controllerMap?: string;
+}
+
+/**
+ * A handler as stored in the route index: the parsed handler plus where it
+ * lives in the routes file and which module the controller is imported from.
+ */
+export interface RouteHandler extends HandlerInfo {
+  range: SourceRange;
+  controllerRange?: SourceRange;
+  methodRange?: SourceRange;
+}
+
+export interface RouteResource {
+  /** The resource as written, e.g. `posts.comments`. */
+  name: string;
+  action: string;
+  nameRange: SourceRange;
+}
+
+export interface RouteParam {
+  /** The param name, or `*` for a wildcard segment. */
+  name: string;
+  optional: boolean;
+  wildcard: boolean;
+  /** Source of the `.where()` matcher constraining the param. */
+  matcher?: string;
+}
+
+export interface RouteGroup {
+  id: string;
+  filePath: string;
+  prefix?: string;
+  name?: string;
+  middleware: string[];
+  domain?: string;
+  /** Param matchers registered through `.where()`, keyed by param name. */
+  matchers: Record<string, string>;
+  range: SourceRange;
+}
+
+export interface RouteRecord {
+  id: string;
+  kind: "route" | "resource";
+  methods: string[];
+  /** Set on the routes expanded from `router.resource()`. */
+  resource?: RouteResource;
+  /** The pattern exactly as written in the router call. */
+  pattern: string;
+  /** The pattern with every enclosing group prefix applied. */
+  url: string;
+  handler: RouteHandler | null;
+  /** Name given through `.as()` on the route itself. */
+  ownName?: string;
+  /** Range of the `.as()` argument, or of the resource name for resources. */
+  nameRange?: SourceRange;
+  /** Name with enclosing group names applied. */
+  name?: string;
+  ownMiddleware: string[];
+  middleware: string[];
+  ownDomain?: string;
+  domain?: string;
+  ownMatchers: Record<string, string>;
+  /** Params of the full url, with the matchers of the route and its groups. */
+  params: RouteParam[];
+  /** Params of the domain, e.g. `tenant` for `:tenant.example.com`. */
+  domainParams: RouteParam[];
+  /** Enclosing groups, outermost first. */
+  groups: RouteGroup[];
+  filePath: string;
+  range: SourceRange;
+  patternRange: SourceRange;
+}
+
+/**
+ * A `router.group(routesFn)` call whose callback lives in another module.
+ * Routes registered by that module inherit the groups listed here.
+ */
+export interface RouteMount {
+  localName: string;
+  importPath?: string;
+  groups: RouteGroup[];
+  range: SourceRange;
+}
+
+export interface ParsedRoutesFile {
+  filePath: string;
+  routes: RouteRecord[];
+  groups: RouteGroup[];
+  mounts: RouteMount[];
+  /**
+   * Modules imported for their side effects (`import './routes/users.js'`),
+   * which register their routes before this file's own.
+   */
+  imports: string[];
+}
+
+interface ChainedCall {
+  name: string;
+  call: ts.CallExpression;
+}
+
+export function parseRoutesSource(
+  filePath: string,
+  text: string
+): ParsedRoutesFile {
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    text,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  return parseRoutesFile(sourceFile);
+}
+
+export function parseRoutesFile(sourceFile: ts.SourceFile): ParsedRoutesFile {
+  const filePath = sourceFile.fileName;
+  const result: ParsedRoutesFile = {
+    filePath,
+    routes: [],
+    groups: [],
+    mounts: [],
+    imports: [],
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      !statement.importClause &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      result.imports.push(statement.moduleSpecifier.text);
+    }
+  }
+
+  const visit = (node: ts.Node, groups: RouteGroup[]) => {
+    const routerMethod = getRouterMethodName(node);
+    if (!routerMethod || !ts.isCallExpression(node)) {
+      ts.forEachChild(node, (child) => visit(child, groups));
+      return;
+    }
+
+    const chain = collectChainedCalls(node);
+
+    if (routerMethod === "group") {
+      const group = createGroup(node, chain, sourceFile);
+      result.groups.push(group);
+      const nestedGroups = [...groups, group];
+
+      const callback = node.arguments[0];
+      if (callback && ts.isIdentifier(callback)) {
+        result.mounts.push({
+          localName: callback.text,
+          importPath: findImportPath(callback.text, sourceFile) || undefined,
+          groups: nestedGroups,
+          range: getRange(sourceFile, callback),
+        });
+      } else if (callback) {
+        visit(callback, nestedGroups);
+      }
+      return;
+    }
+
+    if (routerMethod === "resource" || routerMethod === "shallowResource") {
+      result.routes.push(
+        ...createResourceRoutes(
+          node,
+          routerMethod === "shallowResource",
+          chain,
+          groups,
+          sourceFile
+        )
+      );
+      return;
+    }
+
+    const route = createRoute(node, routerMethod, chain, groups, sourceFile);
+    if (route) {
+      result.routes.push(route);
+    }
+  };
+
+  visit(sourceFile, []);
+  return result;
+}
+
+/**
+ * Recomputes the effective url, name, middleware and domain of a route after
+ * placing it inside additional outer groups (used for mounted route modules).
+ */
+export function withParentGroups(
+  route: RouteRecord,
+  parentGroups: RouteGroup[]
+): RouteRecord {
+  if (parentGroups.length === 0) return route;
+  return applyGroups({ ...route, groups: [...parentGroups, ...route.groups] });
+}
+
+/**
+ * Reads the params of a route pattern: `:id`, optional `:id?` and the `*`
+ * wildcard.
+ */
+export function parseRouteParams(
+  pattern: string,
+  matchers: Record<string, string> = {}
+): RouteParam[] {
+  const params: RouteParam[] = [];
+  for (const segment of pattern.split("/")) {
+    if (segment === "*") {
+      params.push({ name: "*", optional: true, wildcard: true });
+    } else if (segment.startsWith(":")) {
+      const optional = segment.endsWith("?");
+      const name = segment.slice(1, optional ? -1 : undefined);
+      params.push({
+        name,
+        optional,
+        wildcard: false,
+        matcher: matchers[name],
+      });
+    }
+  }
+  return params;
+}
+
+/**
+ * Reads the params of a domain pattern: `:tenant` in `:tenant.example.com`.
+ */
+export function parseDomainParams(domain: string | undefined): RouteParam[] {
+  return (domain || "")
+    .split(".")
+    .filter((segment) => segment.startsWith(":"))
+    .map((segment) => ({
+      name: segment.slice(1),
+      optional: false,
+      wildcard: false,
+    }));
+}
+
+export function joinUrl(...parts: (string | undefined)[]): string {
+  const segments = parts
+    .filter((part): part is string => !!part)
+    .map((part) => part.replace(/^\/+|\/+$/g, ""))
+    .filter((part) => part.length > 0);
+  return "/" + segments.join("/");
+}
+
+function applyGroups(route: RouteRecord): RouteRecord {
+  const prefixes = route.groups.map((group) => group.prefix);
+  route.url = joinUrl(...prefixes, route.pattern);
+
+  // Group names are prepended from the innermost group outwards, and only
+  // to routes that were named themselves.
+  let name = route.ownName;
+  if (name) {
+    for (let i = route.groups.length - 1; i >= 0; i--) {
+      const groupName = route.groups[i].name;
+      if (groupName) name = `${groupName}.${name}`;
+    }
+  }
+  route.name = name;
+
+  route.middleware = [
+    ...route.groups.flatMap((group) => group.middleware),
+    ...route.ownMiddleware,
+  ];
+
+  let domain = route.ownDomain;
+  for (let i = route.groups.length - 1; i >= 0 && !domain; i--) {
+    domain = route.groups[i].domain;
+  }
+  route.domain = domain;
+
+  // Matchers of inner groups and of the route itself win
+  const matchers: Record<string, string> = {};
+  for (const group of route.groups) Object.assign(matchers, group.matchers);
+  Object.assign(matchers, route.ownMatchers);
+  route.params = parseRouteParams(route.url, matchers);
+  route.domainParams = parseDomainParams(route.domain);
+
+  return route;
+}
+
+function getRouterMethodName(node: ts.Node): string | null {
+  if (
+    !ts.isCallExpression(node) ||
+    !ts.isPropertyAccessExpression(node.expression)
+  ) {
+    return null;
+  }
+
+  const receiver = node.expression.expression;
+  if (!ts.isIdentifier(receiver) || receiver.text !== "router") {
+    return null;
+  }
+
+  const methodName = node.expression.name.text;
+  return ROUTER_METHODS.includes(methodName) ? methodName : null;
+}
+
+function collectChainedCalls(call: ts.CallExpression): ChainedCall[] {
+  const chain: ChainedCall[] = [];
+  let current: ts.Node = call;
+  while (
+    ts.isPropertyAccessExpression(current.parent) &&
+    current.parent.expression === current &&
+    ts.isCallExpression(current.parent.parent) &&
+    current.parent.parent.expression === current.parent
+  ) {
+    chain.push({
+      name: current.parent.name.text,
+      call: current.parent.parent,
+    });
+    current = current.parent.parent;
+  }
+  return chain;
+}
+
+function createGroup(
+  call: ts.CallExpression,
+  chain: ChainedCall[],
+  sourceFile: ts.SourceFile
+): RouteGroup {
+  const group: RouteGroup = {
+    id: `${sourceFile.fileName}:${call.getStart(sourceFile)}`,
+    filePath: sourceFile.fileName,
+    middleware: [],
+    matchers: {},
+    range: getRange(sourceFile, call),
+  };
+
+  for (const chained of chain) {
+    const firstArg = chained.call.arguments[0];
+    switch (chained.name) {
+      case "prefix":
+        if (firstArg && ts.isStringLiteralLike(firstArg)) {
+          group.prefix = joinUrl(firstArg.text, group.prefix);
+        }
+        break;
+      case "as":
+        if (firstArg && ts.isStringLiteralLike(firstArg)) {
+          group.name = firstArg.text;
+        }
+        break;
+      case "use":
+      case "middleware":
+        group.middleware.push(...extractMiddlewareNames(chained.call));
+        break;
+      case "domain":
+        if (firstArg && ts.isStringLiteralLike(firstArg)) {
+          group.domain = firstArg.text;
+        }
+        break;
+      case "where":
+        addMatcher(group.matchers, chained.call, sourceFile);
+        break;
+    }
+  }
+
+  return group;
+}
+
+function createRoute(
+  call: ts.CallExpression,
+  routerMethod: string,
+  chain: ChainedCall[],
+  groups: RouteGroup[],
+  sourceFile: ts.SourceFile
+): RouteRecord | null {
+  const patternArg = call.arguments[0];
+  if (!patternArg || !ts.isStringLiteralLike(patternArg)) {
+    return null;
+  }
+
+  let methods: string[];
+  let handlerArg: ts.Expression | undefined;
+  switch (routerMethod) {
+    case "route": {
+      const methodsArg = call.arguments[1];
+      methods =
+        methodsArg && ts.isArrayLiteralExpression(methodsArg)
+          ? methodsArg.elements
+              .filter(ts.isStringLiteralLike)
+              .map((element) => element.text.toUpperCase())
+          : [];
+      handlerArg = call.arguments[2];
+      break;
+    }
+    case "any":
+      methods = ["ANY"];
+      handlerArg = call.arguments[1];
+      break;
+    default:
+      methods = [routerMethod.toUpperCase()];
+      handlerArg = call.arguments[1];
+  }
+
+  const route: RouteRecord = {
+    id: `${sourceFile.fileName}:${call.getStart(sourceFile)}`,
+    kind: "route",
+    methods,
+    pattern: patternArg.text,
+    url: patternArg.text,
+    handler: handlerArg ? createRouteHandler(handlerArg, sourceFile) : null,
+    ownMiddleware: [],
+    middleware: [],
+    ownMatchers: {},
+    params: [],
+    domainParams: [],
+    groups,
+    filePath: sourceFile.fileName,
+    range: getRange(sourceFile, call),
+    patternRange: getRange(sourceFile, patternArg),
+  };
+
+  for (const chained of chain) {
+    const firstArg = chained.call.arguments[0];
+    switch (chained.name) {
+      case "as":
+        if (firstArg && ts.isStringLiteralLike(firstArg)) {
+          route.ownName = firstArg.text;
+          route.nameRange = getRange(sourceFile, firstArg);
+        }
+        break;
+      case "use":
+      case "middleware":
+        route.ownMiddleware.push(...extractMiddlewareNames(chained.call));
+        break;
+      case "domain":
+        if (firstArg && ts.isStringLiteralLike(firstArg)) {
+          route.ownDomain = firstArg.text;
+        }
+        break;
+      case "where":
+        addMatcher(route.ownMatchers, chained.call, sourceFile);
+        break;
+    }
+  }
+
+  return applyGroups(route);
+}
+
+/**
+ * Expands `router.resource('posts.comments', CommentsController)` into one
+ * route per action, honoring `.only()`, `.except()`, `.apiOnly()`,
+ * `.params()`, `.as()` and per-action `.use()` the way AdonisJS does.
+ */
+function createResourceRoutes(
+  call: ts.CallExpression,
+  shallow: boolean,
+  chain: ChainedCall[],
+  groups: RouteGroup[],
+  sourceFile: ts.SourceFile
+): RouteRecord[] {
+  const nameArg = call.arguments[0];
+  const controllerArg = call.arguments[1];
+  if (!nameArg || !ts.isStringLiteralLike(nameArg)) {
+    return [];
+  }
+
+  const resourceName = nameArg.text.replace(/^\/+|\/+$/g, "");
+  const tokens = resourceName.split(".");
+  const mainResource = tokens[tokens.length - 1];
+  const parents = tokens.slice(0, -1);
+
+  let actions = RESOURCE_ACTIONS.map((definition) => definition.action);
+  let baseName = tokens.map(toSnakeCase).join(".");
+  const paramNames: Record<string, string> = {};
+  const actionMiddleware: { actions: string[] | "*"; names: string[] }[] = [];
+  const matchers: Record<string, string> = {};
+  let domain: string | undefined;
+
+  for (const chained of chain) {
+    const [firstArg, secondArg] = chained.call.arguments;
+    switch (chained.name) {
+      case "only":
+        actions = actions.filter((action) =>
+          getStringList(firstArg).includes(action)
+        );
+        break;
+      case "except":
+        actions = actions.filter(
+          (action) => !getStringList(firstArg).includes(action)
+        );
+        break;
+      case "apiOnly":
+        actions = actions.filter((action) => !FORM_ACTIONS.includes(action));
+        break;
+      case "params":
+        if (firstArg && ts.isObjectLiteralExpression(firstArg)) {
+          for (const property of firstArg.properties) {
+            if (
+              ts.isPropertyAssignment(property) &&
+              ts.isStringLiteralLike(property.initializer)
+            ) {
+              const key = ts.isStringLiteralLike(property.name)
+                ? property.name.text
+                : property.name.getText(sourceFile);
+              paramNames[key] = property.initializer.text;
+            }
+          }
+        }
+        break;
+      case "as":
+        if (firstArg && ts.isStringLiteralLike(firstArg)) {
+          baseName = firstArg.text;
+        }
+        break;
+      case "use":
+      case "middleware":
+        if (firstArg && secondArg) {
+          const selected = getStringList(firstArg);
+          actionMiddleware.push({
+            actions:
+              ts.isStringLiteralLike(firstArg) && firstArg.text === "*"
+                ? "*"
+                : selected,
+            names: extractMiddlewareNames(chained.call, 1),
+          });
+        }
+        break;
+      case "domain":
+        if (firstArg && ts.isStringLiteralLike(firstArg)) {
+          domain = firstArg.text;
+        }
+        break;
+      case "where":
+        addMatcher(matchers, chained.call, sourceFile);
+        break;
+    }
+  }
+
+  const parentUrl = parents
+    .map((parent) => {
+      const param =
+        paramNames[parent] || `${toSnakeCase(singularize(parent))}_id`;
+      return `${parent}/:${param}`;
+    })
+    .join("/");
+  const collectionUrl = joinUrl(parentUrl, mainResource);
+  // Shallow resources only nest the collection routes under their parents
+  const memberBaseUrl = shallow ? joinUrl(mainResource) : collectionUrl;
+  const memberParam = `:${paramNames[mainResource] || "id"}`;
+
+  const handler = controllerArg
+    ? createRouteHandler(controllerArg, sourceFile)
+    : null;
+
+  return RESOURCE_ACTIONS.filter((definition) =>
+    actions.includes(definition.action)
+  ).map((definition) => {
+    const pattern = definition.member
+      ? joinUrl(memberBaseUrl, memberParam, definition.suffix)
+      : joinUrl(collectionUrl, definition.suffix);
+
+    const route: RouteRecord = {
+      id: `${sourceFile.fileName}:${call.getStart(
+        sourceFile
+      )}:${definition.action}`,
+      kind: "resource",
+      methods: definition.methods,
+      resource: {
+        name: resourceName,
+        action: definition.action,
+        nameRange: getRange(sourceFile, nameArg),
+      },
+      pattern,
+      url: pattern,
+      handler: handler && {
+        ...handler,
+        type:
+          handler.type === "controller_variable" ? "controller" : handler.type,
+        controllerName: handler.controllerName || handler.variableName,
+        variableName: undefined,
+        methodName: definition.action,
+      },
+      ownName: `${baseName}.${definition.action}`,
+      nameRange: getRange(sourceFile, nameArg),
+      ownMiddleware: actionMiddleware
+        .filter(
+          (entry) =>
+            entry.actions === "*" || entry.actions.includes(definition.action)
+        )
+        .flatMap((entry) => entry.names),
+      middleware: [],
+      ownDomain: domain,
+      ownMatchers: matchers,
+      params: [],
+      domainParams: [],
+      groups,
+      filePath: sourceFile.fileName,
+      range: getRange(sourceFile, call),
+      patternRange: getRange(sourceFile, nameArg),
+    };
+    return applyGroups(route);
+  });
+}
+
+/**
+ * Records `.where('id', /^\d+$/)`, `.where('id', router.matchers.number())`
+ * and `.where('id', { match: /^\d+$/, cast: ... })`.
+ */
+function addMatcher(
+  matchers: Record<string, string>,
+  call: ts.CallExpression,
+  sourceFile: ts.SourceFile
+) {
+  const [nameArg, matcherArg] = call.arguments;
+  if (!nameArg || !ts.isStringLiteralLike(nameArg) || !matcherArg) return;
+
+  let matcher: ts.Expression = matcherArg;
+  if (ts.isObjectLiteralExpression(matcherArg)) {
+    const match = matcherArg.properties.find(
+      (property): property is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(property) &&
+        property.name.getText(sourceFile) === "match"
+    );
+    if (match) matcher = match.initializer;
+  }
+  matchers[nameArg.text] = matcher.getText(sourceFile);
+}
+
+function getStringList(expr: ts.Expression | undefined): string[] {
+  if (!expr) return [];
+  if (ts.isStringLiteralLike(expr)) return [expr.text];
+  if (ts.isArrayLiteralExpression(expr)) {
+    return expr.elements
+      .filter(ts.isStringLiteralLike)
+      .map((element) => element.text);
+  }
+  return [];
+}
+
+function toSnakeCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[-\s]+/g, "_")
+    .toLowerCase();
+}
+
+function singularize(word: string): string {
+  if (/ies$/i.test(word)) return word.replace(/ies$/i, "y");
+  if (/(ss|us)$/i.test(word)) return word;
+  if (/(ches|shes|sses|xes|zes)$/i.test(word)) return word.slice(0, -2);
+  if (/s$/i.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Parses a handler argument along with where its parts are and the module
+ * its controller is imported from.
+ */
+export function createRouteHandler(
+  arg: ts.Expression,
+  sourceFile: ts.SourceFile
+): RouteHandler | null {
+  const handler = parseHandlerArgument(arg);
+  if (!handler) return null;
+
+  const routeHandler: RouteHandler = {
+    ...handler,
+    range: getRange(sourceFile, arg),
+  };
+
+  const controllerName = handler.controllerName || handler.variableName;
+  if (
+    controllerName &&
+    (handler.type === "controller" || handler.type === "controller_variable")
+  ) {
+    routeHandler.importPath =
+      findControllerImportPath(controllerName, sourceFile) || undefined;
+  }
+
+  if (ts.isArrayLiteralExpression(arg)) {
+    routeHandler.controllerRange = getRange(sourceFile, arg.elements[0]);
+    if (arg.elements[1]) {
+      routeHandler.methodRange = getRange(sourceFile, arg.elements[1]);
+    }
+  } else {
+    routeHandler.controllerRange = routeHandler.range;
+    // The method of '#controllers/users_controller.index' is in the string
+    if (handler.type === "controller_string" && handler.methodName) {
+      routeHandler.methodRange = routeHandler.range;
+    }
+  }
+
+  return routeHandler;
+}
+
+function extractMiddlewareNames(
+  call: ts.CallExpression,
+  firstArgument = 0
+): string[] {
+  const names: string[] = [];
+
+  const collect = (expr: ts.Expression) => {
+    if (ts.isArrayLiteralExpression(expr)) {
+      expr.elements.forEach(collect);
+      return;
+    }
+    if (ts.isStringLiteralLike(expr)) {
+      names.push(expr.text);
+      return;
+    }
+    // middleware.auth({ guards: ['api'] })
+    if (
+      ts.isCallExpression(expr) &&
+      ts.isPropertyAccessExpression(expr.expression)
+    ) {
+      names.push(expr.expression.name.text);
+      return;
+    }
+    // middleware.auth (without invoking it)
+    if (ts.isPropertyAccessExpression(expr)) {
+      names.push(expr.name.text);
+      return;
+    }
+    names.push(expr.getText());
+  };
+
+  call.arguments.slice(firstArgument).forEach(collect);
+  return names;
+}
+
+export function parseHandlerArgument(arg: ts.Expression): HandlerInfo | null {
+  // Array literal [Controller, 'method'], or [Controller] running `handle`
+  if (
+    ts.isArrayLiteralExpression(arg) &&
+    (arg.elements.length === 1 || arg.elements.length === 2)
+  ) {
+    const [controllerExpr, methodExpr] = arg.elements;
+    let methodName: string | undefined;
+    if (methodExpr) {
+      // Also accepts `method` template literals without substitutions
+      if (!ts.isStringLiteralLike(methodExpr)) return null;
+      methodName = methodExpr.text;
+    }
+
+    const controller = parseControllerExpression(controllerExpr);
+    return controller && { ...controller, methodName };
+  }
+
+  // String handler: '#controllers/users_controller.index'
+  if (ts.isStringLiteralLike(arg) && arg.text.startsWith("#")) {
+    const fileStart = arg.text.lastIndexOf("/") + 1;
+    const methodStart = arg.text.indexOf(".", fileStart);
+    const importPath =
+      methodStart === -1 ? arg.text : arg.text.slice(0, methodStart);
+    return {
+      type: "controller_string",
+      controllerName: getControllerNameFromPath(importPath),
+      importPath,
+      methodName:
+        methodStart === -1 ? undefined : arg.text.slice(methodStart + 1),
+    };
+  }
+
+  // Lazily imported controller: router.resource('posts', () => import('...'))
+  const importPath = getLazyImportPath(arg);
+  if (importPath) {
+    return {
+      type: "controller_import",
+      controllerName: getControllerNameFromPath(importPath),
+      importPath,
+    };
+  }
+
+  // Arrow function or function expression - skip
+  if (ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)) {
+    return null;
+  }
+
+  // Identifier - could be a controller variable
+  if (ts.isIdentifier(arg)) {
+    // This might be a controller factory variable
+    return {
+      type: "controller_variable",
+      variableName: arg.text,
+    };
+  }
+
+  return null;
+}
+
+function parseControllerExpression(expr: ts.Expression): HandlerInfo | null {
+  if (ts.isIdentifier(expr)) {
+    return { type: "controller", controllerName: expr.text };
+  }
+
+  const importPath = getLazyImportPath(expr);
+  if (importPath) {
+    return {
+      type: "controller_import",
+      controllerName: getControllerNameFromPath(importPath),
+      importPath,
+    };
+  }
+
+  // controllers.users / controllers['users']
+  if (
+    ts.isPropertyAccessExpression(expr) &&
+    ts.isIdentifier(expr.expression) &&
+    ts.isIdentifier(expr.name)
+  ) {
+    return {
+      type: "controller_map",
+      controllerMap: expr.expression.text,
+      controllerName: expr.name.text,
+    };
+  }
+  if (
+    ts.isElementAccessExpression(expr) &&
+    ts.isIdentifier(expr.expression) &&
+    ts.isStringLiteralLike(expr.argumentExpression)
+  ) {
+    return {
+      type: "controller_map",
+      controllerMap: expr.expression.text,
+      controllerName: expr.argumentExpression.text,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * `#controllers/admin/users_controller` -> `UsersController`
+ */
+export function getControllerNameFromPath(importPath: string): string {
+  return importPath
+    .slice(importPath.lastIndexOf("/") + 1)
+    .replace(/\.[cm]?[jt]s$/, "")
+    .split(/[_-]/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+}
+
+/**
+ * `UsersController` -> `users_controller`, the AdonisJS file naming
+ * convention for controllers.
+ */
+export function getControllerFileName(controllerName: string): string {
+  return controllerName.replace(/([a-z])([A-Z])/g, "$1_$2").toLowerCase();
+}
+
+/**
+ * The module of `() => import('...')`, or of a bare `import('...')`.
+ */
+export function getLazyImportPath(expr: ts.Expression): string | undefined {
+  const body = ts.isArrowFunction(expr) ? expr.body : expr;
+  if (
+    ts.isCallExpression(body) &&
+    body.expression.kind === ts.SyntaxKind.ImportKeyword &&
+    body.arguments.length > 0 &&
+    ts.isStringLiteralLike(body.arguments[0])
+  ) {
+    return body.arguments[0].text;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a statement only declares lazy imports, e.g.
+ * `const UsersController = () => import('#controllers/users_controller')`.
+ */
+export function isLazyImportDeclaration(statement: ts.Statement): boolean {
+  return (
+    ts.isVariableStatement(statement) &&
+    statement.declarationList.declarations.every(
+      (declaration) =>
+        declaration.initializer && getLazyImportPath(declaration.initializer)
+    )
+  );
+}
+
+/**
+ * Finds the module a controller is loaded from: a lazy
+ * `const X = () => import('...')` declaration or, as older routes files do,
+ * a static `import X from '...'`.
+ */
+export function findControllerImportPath(
+  variableName: string,
+  sourceFile: ts.SourceFile
+): string | null {
+  function visit(node: ts.Node): string | null {
+    // Look for variable declarations
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.name.text === variableName
+    ) {
+      if (node.initializer) {
+        // Handle arrow function: () => import('#controllers/...')
+        if (ts.isArrowFunction(node.initializer) && node.initializer.body) {
+          const body = node.initializer.body;
+          if (
+            ts.isCallExpression(body) &&
+            body.expression.kind === ts.SyntaxKind.ImportKeyword
+          ) {
+            const args = body.arguments;
+            if (args.length > 0 && ts.isStringLiteral(args[0])) {
+              return args[0].text;
+            }
+          }
+        }
+        // Handle direct import: import('#controllers/...')
+        else if (
+          ts.isCallExpression(node.initializer) &&
+          node.initializer.expression.kind === ts.SyntaxKind.ImportKeyword
+        ) {
+          const args = node.initializer.arguments;
+          if (args.length > 0 && ts.isStringLiteral(args[0])) {
+            return args[0].text;
+          }
+        }
+      }
+    }
+
+    // Continue searching
+    return ts.forEachChild(node, visit) || null;
+  }
+
+  const lazyImportPath = visit(sourceFile);
+  if (lazyImportPath) return lazyImportPath;
+
+  const binding = findImportBinding(variableName, sourceFile);
+  return binding?.importedName === "default" ? binding.importPath : null;
+}
+
+/**
+ * Finds the static import declaring a local identifier, with the name it is
+ * exported under by the imported module ("default" for default imports).
+ */
+export function findImportBinding(
+  localName: string,
+  sourceFile: ts.SourceFile
+): { importPath: string; importedName: string } | null {
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !statement.importClause ||
+      !ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      continue;
+    }
+
+    const importPath = statement.moduleSpecifier.text;
+    const { name, namedBindings } = statement.importClause;
+    if (name?.text === localName) {
+      return { importPath, importedName: "default" };
+    }
+    if (namedBindings && ts.isNamedImports(namedBindings)) {
+      const element = namedBindings.elements.find(
+        (element) => element.name.text === localName
+      );
+      if (element) {
+        return {
+          importPath,
+          importedName: (element.propertyName || element.name).text,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the module a local identifier comes from: either a lazy
+ * `() => import('...')` declaration or a static import declaration.
+ */
+export function findImportPath(
+  localName: string,
+  sourceFile: ts.SourceFile
+): string | null {
+  return (
+    findImportBinding(localName, sourceFile)?.importPath ||
+    findControllerImportPath(localName, sourceFile)
+  );
+}
+
+/**
+ * Finds the module behind `key` in an object of controllers declared in a
+ * file, e.g. `export const controllers = { users: () => import('...') }`.
+ * `mapName` "default" looks the object up through `export default`.
+ */
+export function findControllerMapImportPath(
+  sourceFile: ts.SourceFile,
+  mapName: string,
+  key: string
+): string | null {
+  let map: ts.Expression | undefined;
+  const findDeclaration = (name: string) => {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+      const declaration = statement.declarationList.declarations.find(
+        (declaration) =>
+          ts.isIdentifier(declaration.name) && declaration.name.text === name
+      );
+      if (declaration?.initializer) return declaration.initializer;
+    }
+    return undefined;
+  };
+
+  if (mapName === "default") {
+    const exportDefault = sourceFile.statements.find(
+      (statement): statement is ts.ExportAssignment =>
+        ts.isExportAssignment(statement) && !statement.isExportEquals
+    );
+    map = exportDefault?.expression;
+    if (map && ts.isIdentifier(map)) map = findDeclaration(map.text);
+  } else {
+    map = findDeclaration(mapName);
+  }
+
+  while (
+    map &&
+    (ts.isAsExpression(map) ||
+      ts.isSatisfiesExpression(map) ||
+      ts.isParenthesizedExpression(map))
+  ) {
+    map = map.expression;
+  }
+  if (!map || !ts.isObjectLiteralExpression(map)) return null;
+
+  for (const property of map.properties) {
+    const name = property.name;
+    if (
+      !name ||
+      !(ts.isIdentifier(name) || ts.isStringLiteralLike(name)) ||
+      name.text !== key
+    ) {
+      continue;
+    }
+
+    if (ts.isShorthandPropertyAssignment(property)) {
+      return findImportPath(key, sourceFile);
+    }
+    if (!ts.isPropertyAssignment(property)) return null;
+
+    const value = property.initializer;
+    return (
+      getLazyImportPath(value) ||
+      (ts.isIdentifier(value) ? findImportPath(value.text, sourceFile) : null)
+    );
+  }
+
+  return null;
+}
+
+export function containsPosition(
+  range: SourceRange,
+  position: SourcePosition
+): boolean {
+  const afterStart =
+    position.line > range.start.line ||
+    (position.line === range.start.line &&
+      position.character >= range.start.character);
+  const beforeEnd =
+    position.line < range.end.line ||
+    (position.line === range.end.line &&
+      position.character <= range.end.character);
+  return afterStart && beforeEnd;
+}
+
+export function getRange(
+  sourceFile: ts.SourceFile,
+  node: ts.Node
+): SourceRange {
+  return {
+    start: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)),
+    end: sourceFile.getLineAndCharacterOfPosition(node.getEnd()),
+  };
+}
@@ -0,0 +1,241 @@
+import * as ts from "typescript";
+import * as path from "path";
+import * as fs from "fs";
+import { readPreloadFiles } from "./adonisRc";
+import { ImportResolver } from "./importResolver";
+import {
+  ParsedRoutesFile,
+  RouteGroup,
+  RouteRecord,
+  parseRoutesFile,
+  withParentGroups,
+} from "./routeParser";
+
+export interface RoutesFile {
+  sourceFile: ts.SourceFile;
+  parsed: ParsedRoutesFile;
+}
+
+/**
+ * The routes of a project read straight from disk, without an editor.
+ */
+export interface RoutesProject {
+  projectRoot: string;
+  files: Map<string, RoutesFile>;
+  routes: RouteRecord[];
+  /** Registration order of each routes file, see `computeFileOrder`. */
+  fileOrder: Map<string, number>;
+}
+
+const IGNORED_DIRECTORIES = ["node_modules", ".git", "build", "dist"];
+
+/**
+ * Reads `start/routes.ts`, every `routes/**\/*.ts` file and the modules
+ * preloaded by `adonisrc.ts` that declare routes, and flattens them into the
+ * route list, the same way the editor index does.
+ */
+export function loadRoutesProject(
+  projectRoot: string,
+  importResolver: ImportResolver
+): RoutesProject {
+  const files = new Map<string, RoutesFile>();
+  const readFile = (filePath: string) => {
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      fs.readFileSync(filePath, "utf8"),
+      ts.ScriptTarget.Latest,
+      true
+    );
+    return { sourceFile, parsed: parseRoutesFile(sourceFile) };
+  };
+
+  for (const filePath of findRoutesFiles(projectRoot)) {
+    files.set(filePath, readFile(filePath));
+  }
+  const preloads = readPreloadFiles(projectRoot, importResolver);
+  for (const filePath of preloads) {
+    if (files.has(filePath) || !fs.existsSync(filePath)) continue;
+    const file = readFile(filePath);
+    if (definesRoutes(file.parsed)) files.set(filePath, file);
+  }
+
+  const resolveModule = (importPath: string, fromFile: string) =>
+    resolveRoutesModulePath(importPath, fromFile, files, importResolver);
+  return {
+    projectRoot,
+    files,
+    routes: collectRoutes(files, resolveModule),
+    fileOrder: computeFileOrder(
+      files,
+      resolveModule,
+      getEntryPoints(files, preloads)
+    ),
+  };
+}
+
+export function findRoutesFiles(projectRoot: string): string[] {
+  const found: string[] = [];
+  const startRoutes = path.join(projectRoot, "start", "routes.ts");
+  if (fs.existsSync(startRoutes)) found.push(startRoutes);
+
+  const walk = (dir: string, inRoutesDir: boolean) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (IGNORED_DIRECTORIES.includes(entry.name)) continue;
+        walk(entryPath, inRoutesDir || entry.name === "routes");
+      } else if (
+        inRoutesDir &&
+        entry.name.endsWith(".ts") &&
+        !entry.name.endsWith(".d.ts")
+      ) {
+        found.push(entryPath);
+      }
+    }
+  };
+  walk(projectRoot, false);
+
+  return found;
+}
+
+/**
+ * Whether a module registers routes; other preloaded modules (`start/kernel`,
+ * `start/events`) are not indexed.
+ */
+export function definesRoutes(parsed: ParsedRoutesFile): boolean {
+  return (
+    parsed.routes.length > 0 ||
+    parsed.groups.length > 0 ||
+    parsed.mounts.length > 0
+  );
+}
+
+/**
+ * The routes files AdonisJS imports itself: the preloads of `adonisrc.ts`
+ * in their declared order, then any `start/routes.ts` not listed there.
+ */
+export function getEntryPoints(
+  files: Map<string, unknown>,
+  preloads: string[]
+): string[] {
+  const entryPoints = preloads.filter((filePath) => files.has(filePath));
+  const startRoutes = Array.from(files.keys())
+    .sort()
+    .filter(
+      (filePath) =>
+        filePath.endsWith(path.join("start", "routes.ts")) &&
+        !entryPoints.includes(filePath)
+    );
+  return [...entryPoints, ...startRoutes];
+}
+
+/**
+ * Resolves the specifier of a mounted or imported routes module to one of
+ * the routes files, or null when it points elsewhere.
+ */
+export function resolveRoutesModulePath(
+  importPath: string,
+  fromFile: string,
+  files: Map<string, unknown>,
+  importResolver: ImportResolver
+): string | null {
+  if (!importPath.startsWith(".")) {
+    const resolved = importResolver.resolve(importPath, fromFile);
+    return resolved && files.has(resolved) ? resolved : null;
+  }
+
+  const resolvedPath = path.resolve(path.dirname(fromFile), importPath);
+  const candidates = [
+    resolvedPath.replace(/\.js$/, ".ts"),
+    `${resolvedPath}.ts`,
+    path.join(resolvedPath, "index.ts"),
+    resolvedPath,
+  ];
+  return candidates.find((candidate) => files.has(candidate)) || null;
+}
+
+/**
+ * Flattens the per-file parse results into the route list, applying the
+ * groups of `router.group(routesFn)` mounts to the routes of mounted modules.
+ */
+export function collectRoutes(
+  files: Map<string, { parsed: ParsedRoutesFile }>,
+  resolveModule: (importPath: string, fromFile: string) => string | null
+): RouteRecord[] {
+  const mountsByFile = new Map<string, RouteGroup[][]>();
+  for (const [filePath, file] of files) {
+    for (const mount of file.parsed.mounts) {
+      const target = mount.importPath
+        ? resolveModule(mount.importPath, filePath)
+        : null;
+      if (!target || !files.has(target)) continue;
+
+      const contexts = mountsByFile.get(target) || [];
+      contexts.push(mount.groups);
+      mountsByFile.set(target, contexts);
+    }
+  }
+
+  const contextsFor = (
+    filePath: string,
+    visiting: Set<string>
+  ): RouteGroup[][] => {
+    const mounts = mountsByFile.get(filePath);
+    if (!mounts || visiting.has(filePath)) return [[]];
+
+    visiting.add(filePath);
+    const contexts: RouteGroup[][] = [];
+    for (const mountGroups of mounts) {
+      const mountFile = mountGroups[0]?.filePath;
+      const parentContexts = mountFile
+        ? contextsFor(mountFile, visiting)
+        : [[]];
+      for (const parent of parentContexts) {
+        contexts.push([...parent, ...mountGroups]);
+      }
+    }
+    visiting.delete(filePath);
+    return contexts;
+  };
+
+  const routes: RouteRecord[] = [];
+  for (const [filePath, file] of files) {
+    for (const context of contextsFor(filePath, new Set())) {
+      for (const route of file.parsed.routes) {
+        routes.push(withParentGroups(route, context));
+      }
+    }
+  }
+  return routes;
+}
+
+/**
+ * Orders routes files the way AdonisJS evaluates them: for each entry point
+ * (see `getEntryPoints`), the modules it imports first (depth first, as ES
+ * modules are), then the file itself. Files nothing imports are left out.
+ */
+export function computeFileOrder(
+  files: Map<string, { parsed: ParsedRoutesFile }>,
+  resolveModule: (importPath: string, fromFile: string) => string | null,
+  entryPoints = getEntryPoints(files, [])
+): Map<string, number> {
+  const order = new Map<string, number>();
+  const visit = (filePath: string, visiting: Set<string>) => {
+    if (order.has(filePath) || visiting.has(filePath)) return;
+    visiting.add(filePath);
+    for (const importPath of files.get(filePath)!.parsed.imports) {
+      const target = resolveModule(importPath, filePath);
+      if (target) visit(target, visiting);
+    }
+    order.set(filePath, order.size);
+  };
+
+  for (const filePath of entryPoints) visit(filePath, new Set());
+  return order;
+}
@@ -0,0 +1,91 @@
+import * as vscode from "vscode";
+import { formatHandler, formatMethods, formatUrl } from "./routeFormat";
+import { RouteIndex } from "./routeIndex";
+import { openRoute, openRouteHandler } from "./routeNavigation";
+import { RouteRecord } from "./routeParser";
+import { RouteTargets } from "./routeTargets";
+
+const PICKER_CONTEXT_KEY = "adonisRoutesGoto.routePickerOpen";
+
+interface RouteQuickPickItem extends vscode.QuickPickItem {
+  route: RouteRecord;
+}
+
+const goToHandlerButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("go-to-file"),
+  tooltip: "Go to Controller Method",
+};
+
+/**
+ * "Go to Route" picker over every indexed route. Enter opens the route
+ * definition; the item button (or Ctrl/Cmd+Enter) opens the controller method.
+ */
+export class RouteQuickPick {
+  private activePicker: vscode.QuickPick<RouteQuickPickItem> | null = null;
+
+  constructor(
+    private routeIndex: RouteIndex,
+    private routeTargets: RouteTargets
+  ) {}
+
+  async show() {
+    await this.routeIndex.initialize();
+
+    const picker = vscode.window.createQuickPick<RouteQuickPickItem>();
+    picker.placeholder = "Search routes by URL, name or handler";
+    picker.matchOnDescription = true;
+    picker.matchOnDetail = true;
+    picker.items = this.routeIndex.getRoutes().map((route) => this.toItem(route));
+
+    picker.onDidAccept(() => {
+      const item = picker.selectedItems[0];
+      picker.hide();
+      if (item) openRoute(item.route);
+    });
+    picker.onDidTriggerItemButton((event) => {
+      picker.hide();
+      openRouteHandler(event.item.route, this.routeTargets);
+    });
+    picker.onDidHide(() => {
+      this.activePicker = null;
+      vscode.commands.executeCommand("setContext", PICKER_CONTEXT_KEY, false);
+      picker.dispose();
+    });
+
+    this.activePicker = picker;
+    vscode.commands.executeCommand("setContext", PICKER_CONTEXT_KEY, true);
+    picker.show();
+  }
+
+  /**
+   * Opens the controller method of the highlighted route in the open picker.
+   */
+  acceptHandler() {
+    const picker = this.activePicker;
+    const item = picker?.activeItems[0];
+    if (!picker || !item) return;
+
+    picker.hide();
+    openRouteHandler(item.route, this.routeTargets);
+  }
+
+  private toItem(route: RouteRecord): RouteQuickPickItem {
+    const handler = formatHandler(route);
+    const description = [
+      handler ? `→ ${handler}` : null,
+      route.name ? `(${route.name})` : null,
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    return {
+      label: `${formatMethods(route)} ${formatUrl(route)}`,
+      description,
+      detail: `${vscode.workspace.asRelativePath(route.filePath)}:${
+        route.range.start.line + 1
+      }`,
+      buttons: route.handler ? [goToHandlerButton] : [],
+      route,
+    };
+  }
+}
@@ -0,0 +1,359 @@
+import * as vscode from "vscode";
+import * as ts from "typescript";
+import * as path from "path";
+import { findControllerClasses, getPublicMethods } from "./controllerParser";
+import { AdonisRoutesDefinitionProvider } from "./definitionProvider";
+import { ImportResolver, findProjectRoot } from "./importResolver";
+import { RouteIndex } from "./routeIndex";
+import {
+  RouteRecord,
+  SourceRange,
+  containsPosition,
+  getRange,
+} from "./routeParser";
+import { RouteTarget, RouteTargets } from "./routeTargets";
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+interface MethodRenameTarget {
+  controllerPath: string;
+  methodName: string;
+  /** Range of the renamed text in the document the rename started from. */
+  range: vscode.Range;
+}
+
+/**
+ * Keeps route tuples in sync with controller method names: renaming a method
+ * updates the `[Controller, 'method']` strings pointing at it, and renaming
+ * such a string renames the method. The method itself is renamed by the
+ * TypeScript rename provider, which this provider delegates to.
+ */
+export class RouteRenameProvider implements vscode.RenameProvider {
+  /** Set while delegating to the other rename providers. */
+  private delegating = false;
+
+  constructor(
+    private routeIndex: RouteIndex,
+    private routeTargets: RouteTargets,
+    private definitionProvider: AdonisRoutesDefinitionProvider,
+    private importResolver: ImportResolver
+  ) {}
+
+  prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.Range> {
+    if (this.delegating) return null;
+
+    // Returning nothing lets the next rename provider handle the rename
+    const target = this.findRenameTarget(document, position);
+    return target ? target.range : null;
+  }
+
+  async provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string
+  ): Promise<vscode.WorkspaceEdit | null> {
+    if (this.delegating) return null;
+
+    const target = this.findRenameTarget(document, position);
+    if (!target) return null;
+
+    if (!IDENTIFIER_PATTERN.test(newName)) {
+      throw new Error(`'${newName}' is not a valid method name.`);
+    }
+
+    const methodLocation = this.definitionProvider.findMethodInControllerFile(
+      target.controllerPath,
+      target.methodName
+    );
+    if (!methodLocation) {
+      throw new Error(
+        `Method '${target.methodName}' was not found in ${path.basename(
+          target.controllerPath
+        )}.`
+      );
+    }
+
+    const edit = await this.renameSymbol(
+      methodLocation.uri,
+      methodLocation.range.start,
+      newName
+    );
+
+    for (const routeTarget of this.routeTargets.getTargetsForController(
+      target.controllerPath,
+      target.methodName
+    )) {
+      const range = this.getMethodStringRange(routeTarget);
+      if (!range) continue;
+
+      const uri = vscode.Uri.file(routeTarget.route.filePath);
+      const alreadyEdited = edit
+        .get(uri)
+        .some((existing) => existing.range.isEqual(range));
+      if (!alreadyEdited) {
+        edit.replace(uri, range, newName);
+      }
+    }
+
+    return edit;
+  }
+
+  /**
+   * Updates `#controllers/...` specifiers in routes files, of lazy imports,
+   * static imports and `export ... from`, when a controller file (or a
+   * directory of controllers) is moved or renamed.
+   */
+  async provideFileRenameEdits(
+    files: readonly { oldUri: vscode.Uri; newUri: vscode.Uri }[]
+  ): Promise<vscode.WorkspaceEdit> {
+    const edit = new vscode.WorkspaceEdit();
+
+    for (const filePath of this.routeIndex.getIndexedFiles()) {
+      const sourceFile = this.routeIndex.getIndexedSourceFile(filePath);
+      const projectRoot = findProjectRoot(filePath);
+      if (!sourceFile || !projectRoot) continue;
+
+      for (const specifier of this.findImportSpecifiers(sourceFile)) {
+        const resolved = this.importResolver.resolve(
+          specifier.text,
+          filePath,
+          projectRoot
+        );
+        if (!resolved) continue;
+
+        const newPath = this.getRenamedPath(resolved, files);
+        if (!newPath) continue;
+
+        const newSpecifier = this.createSpecifier(
+          specifier.text,
+          newPath,
+          projectRoot
+        );
+        if (newSpecifier && newSpecifier !== specifier.text) {
+          const range = getRange(sourceFile, specifier);
+          edit.replace(
+            vscode.Uri.file(filePath),
+            new vscode.Range(
+              range.start.line,
+              range.start.character + 1,
+              range.end.line,
+              range.end.character - 1
+            ),
+            newSpecifier
+          );
+        }
+      }
+    }
+
+    return edit;
+  }
+
+  private findRenameTarget(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): MethodRenameTarget | null {
+    const routes = this.routeIndex.getRoutesInFile(document.fileName);
+    if (routes.length > 0) {
+      return this.findRouteStringTarget(routes, position);
+    }
+    return this.findControllerMethodTarget(document, position);
+  }
+
+  /**
+   * The method string of a `[Controller, 'method']` tuple in a routes file.
+   */
+  private findRouteStringTarget(
+    routes: RouteRecord[],
+    position: vscode.Position
+  ): MethodRenameTarget | null {
+    const route = routes.find(
+      (r) =>
+        !r.resource &&
+        r.handler?.methodRange &&
+        containsPosition(r.handler.methodRange, position)
+    );
+    if (!route) return null;
+
+    const target = this.routeTargets.resolveTarget(route);
+    const range = target && this.getMethodStringRange(target);
+    if (!target || !range) return null;
+
+    return {
+      controllerPath: target.controllerPath,
+      methodName: target.methodName,
+      range,
+    };
+  }
+
+  /**
+   * A public method of a controller that at least one route points at.
+   */
+  private findControllerMethodTarget(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): MethodRenameTarget | null {
+    const sourceFile = ts.createSourceFile(
+      document.fileName,
+      document.getText(),
+      ts.ScriptTarget.Latest,
+      true
+    );
+    const offset = document.offsetAt(position);
+
+    for (const controllerClass of findControllerClasses(sourceFile)) {
+      for (const method of getPublicMethods(controllerClass)) {
+        if (
+          offset < method.name.getStart(sourceFile) ||
+          offset > method.name.getEnd()
+        ) {
+          continue;
+        }
+
+        const targets = this.routeTargets.getTargetsForController(
+          document.fileName,
+          method.name.text
+        );
+        if (!targets.some((target) => this.getMethodStringRange(target))) {
+          return null;
+        }
+
+        return {
+          controllerPath: path.normalize(document.fileName),
+          methodName: method.name.text,
+          range: new vscode.Range(
+            document.positionAt(method.name.getStart(sourceFile)),
+            document.positionAt(method.name.getEnd())
+          ),
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Range of the method name at the end of the string naming it: the method
+   * string of a route tuple, or '#controllers/users_controller.index'.
+   * Resource actions and bare controller handlers have no string to rename.
+   */
+  private getMethodStringRange(target: RouteTarget): vscode.Range | null {
+    const route = target.route;
+    const range: SourceRange | undefined = route.handler?.methodRange;
+    if (route.resource || !range) return null;
+
+    return new vscode.Range(
+      range.end.line,
+      range.end.character - 1 - target.methodName.length,
+      range.end.line,
+      range.end.character - 1
+    );
+  }
+
+  private async renameSymbol(
+    uri: vscode.Uri,
+    position: vscode.Position,
+    newName: string
+  ): Promise<vscode.WorkspaceEdit> {
+    await vscode.workspace.openTextDocument(uri);
+
+    this.delegating = true;
+    try {
+      const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit>(
+        "vscode.executeDocumentRenameProvider",
+        uri,
+        position,
+        newName
+      );
+      return edit || new vscode.WorkspaceEdit();
+    } catch (error) {
+      console.error("Delegated rename failed:", error);
+      return new vscode.WorkspaceEdit();
+    } finally {
+      this.delegating = false;
+    }
+  }
+
+  private findImportSpecifiers(sourceFile: ts.SourceFile): ts.StringLiteral[] {
+    const specifiers: ts.StringLiteral[] = [];
+    const visit = (node: ts.Node) => {
+      let specifier: ts.Node | undefined;
+      if (
+        ts.isCallExpression(node) &&
+        node.expression.kind === ts.SyntaxKind.ImportKeyword
+      ) {
+        specifier = node.arguments[0];
+      } else if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+        specifier = node.moduleSpecifier;
+      }
+      if (
+        specifier &&
+        ts.isStringLiteral(specifier) &&
+        specifier.text.startsWith("#")
+      ) {
+        specifiers.push(specifier);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return specifiers;
+  }
+
+  private getRenamedPath(
+    filePath: string,
+    files: readonly { oldUri: vscode.Uri; newUri: vscode.Uri }[]
+  ): string | null {
+    for (const { oldUri, newUri } of files) {
+      const oldPath = path.normalize(oldUri.fsPath);
+      if (filePath === oldPath) return newUri.fsPath;
+
+      // A directory containing the file was renamed
+      if (filePath.startsWith(oldPath + path.sep)) {
+        return path.join(newUri.fsPath, path.relative(oldPath, filePath));
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Builds the specifier for a moved file using the same alias as the
+   * original specifier, keeping its extension style (`.js` or none).
+   */
+  private createSpecifier(
+    original: string,
+    newPath: string,
+    projectRoot: string
+  ): string | null {
+    const imports = this.definitionProvider.getPackageImports(projectRoot);
+
+    for (const alias of Object.keys(imports)) {
+      const starIndex = alias.indexOf("*");
+      if (starIndex === -1) continue;
+
+      const prefix = alias.slice(0, starIndex);
+      if (!original.startsWith(prefix)) continue;
+
+      const baseDir = this.importResolver.getWildcardBaseDir(
+        alias,
+        projectRoot
+      );
+      if (!baseDir) continue;
+
+      const relativePath = path.relative(baseDir, newPath);
+      if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+        continue;
+      }
+
+      const moduleName = relativePath
+        .split(path.sep)
+        .join("/")
+        .replace(/\.(ts|js)$/, "");
+      const extension = original.endsWith(".js") ? ".js" : "";
+      return `${prefix}${moduleName}${extension}`;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,685 @@
+import * as ts from "typescript";
+import * as path from "path";
+import * as fs from "fs";
+import { ImportResolver } from "./importResolver";
+import {
+  HandlerInfo,
+  SourceRange,
+  findControllerMapImportPath,
+  findImportBinding,
+  findImportPath,
+  getControllerFileName,
+  getRange,
+} from "./routeParser";
+import { TypeScriptProjects } from "./typeScriptProjects";
+
+/**
+ * A range in a file on disk, the editor-independent counterpart of a
+ * `vscode.Location`.
+ */
+export interface SourceLocation {
+  filePath: string;
+  range: SourceRange;
+}
+
+interface CachedSourceFile {
+  mtime: number;
+  sourceFile: ts.SourceFile;
+}
+
+/** A controller class declaration and the file declaring it. */
+export interface ControllerClass {
+  sourceFile: ts.SourceFile;
+  node: ts.ClassLikeDeclaration;
+}
+
+const FILE_START: SourceRange = {
+  start: { line: 0, character: 0 },
+  end: { line: 0, character: 0 },
+};
+
+/**
+ * Resolves route handlers to controller files and methods, and route modules
+ * to their files, with plain paths and ranges so that it runs outside of
+ * VS Code.
+ */
+export class RouteResolver {
+  private sourceFiles = new Map<string, CachedSourceFile>();
+
+  constructor(
+    private importResolver: ImportResolver,
+    private typeScriptProjects?: TypeScriptProjects
+  ) {}
+
+  /**
+   * Resolves a controller to its file, through its import path when the routes
+   * file declares one and by naming convention otherwise.
+   */
+  resolveControllerFile(
+    controllerName: string,
+    importPath: string | undefined,
+    fromFile: string,
+    projectRoot: string
+  ): string | null {
+    if (importPath) {
+      return this.resolveControllerFromImportPath(
+        importPath,
+        fromFile,
+        projectRoot
+      );
+    }
+    return this.resolveControllerPath(controllerName, projectRoot);
+  }
+
+  /**
+   * Resolves the controller file of a route handler, whatever form the
+   * handler takes (see `HandlerInfo`).
+   */
+  resolveHandlerController(
+    handler: HandlerInfo,
+    routesFile: string,
+    projectRoot: string
+  ): string | null {
+    const controllerName = handler.controllerName || handler.variableName;
+    if (!controllerName) return null;
+
+    if (handler.type === "controller_map" && handler.controllerMap) {
+      return this.resolveControllerFromMap(
+        handler.controllerMap,
+        controllerName,
+        routesFile,
+        projectRoot
+      );
+    }
+    return this.resolveControllerFile(
+      controllerName,
+      handler.importPath,
+      routesFile,
+      projectRoot
+    );
+  }
+
+  /**
+   * Resolves the module a controller is imported from, relative specifiers
+   * from the file importing it.
+   */
+  resolveControllerFromImportPath(
+    importPath: string,
+    fromFile: string,
+    projectRoot: string
+  ): string | null {
+    return this.importResolver.resolve(importPath, fromFile, projectRoot);
+  }
+
+  /**
+   * Looks a controller up by naming convention under the `#controllers/*`
+   * directory (`BannerController` -> `banner_controller.ts`).
+   */
+  resolveControllerPath(
+    controllerName: string,
+    projectRoot: string
+  ): string | null {
+    // The import map often points to "./app/controllers/*.js" even though the
+    // source is ".ts"; use the mapping's directory as the base path.
+    const basePath = this.importResolver.getWildcardBaseDir(
+      "#controllers/*",
+      projectRoot
+    );
+    if (!basePath) return null;
+
+    const snakeCaseName = getControllerFileName(controllerName);
+
+    const possiblePaths = [
+      path.join(basePath, `${snakeCaseName}.ts`),
+      path.join(basePath, `${snakeCaseName}.js`),
+      path.join(basePath, controllerName, "index.ts"),
+      path.join(basePath, controllerName, "index.js"),
+      // Also try PascalCase just in case
+      path.join(basePath, `${controllerName}.ts`),
+      path.join(basePath, `${controllerName}.js`),
+    ];
+    return possiblePaths.find((p) => fs.existsSync(p)) || null;
+  }
+
+  /**
+   * Finds the method a controller file runs: on its default-exported class,
+   * following re-exports, barrel files and local aliases to the class
+   * declaration and then the `extends` chain to the class that declares the
+   * method. Only files without a default-exported class fall back to any
+   * class or exported function of the file with that name. Asks the type
+   * checker first when the TypeScript projects are enabled.
+   */
+  findMethodInControllerFile(
+    controllerPath: string,
+    methodName: string
+  ): SourceLocation | null {
+    try {
+      const checked = this.typeScriptProjects?.findMethod(
+        controllerPath,
+        methodName
+      );
+      if (checked) return checked;
+
+      const sourceFile = this.getSourceFile(controllerPath);
+      if (!sourceFile) return null;
+
+      const controller = this.resolveExportedClass(
+        sourceFile,
+        "default",
+        new Set()
+      );
+      if (controller) {
+        return this.findMethodInClass(controller, methodName, new Set());
+      }
+
+      const best = findBestMethodNameNode(sourceFile, methodName);
+      if (!best) return null;
+
+      return { filePath: controllerPath, range: getRange(sourceFile, best) };
+    } catch (error) {
+      console.error(
+        "Failed to find method in controller file:",
+        controllerPath,
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Finds the class a controller file exports by default, following the same
+   * re-exports and aliases as `findMethodInControllerFile`.
+   */
+  findControllerClass(controllerPath: string): ControllerClass | null {
+    const sourceFile = this.getSourceFile(controllerPath);
+    return (
+      sourceFile && this.resolveExportedClass(sourceFile, "default", new Set())
+    );
+  }
+
+  /**
+   * The class a controller file exports by default followed by its base
+   * classes, nearest first.
+   */
+  getControllerClassChain(controllerPath: string): ControllerClass[] {
+    const chain: ControllerClass[] = [];
+    const visited = new Set<ts.ClassLikeDeclaration>();
+    for (
+      let controller = this.findControllerClass(controllerPath);
+      controller && !visited.has(controller.node);
+      controller = this.resolveBaseClass(controller)
+    ) {
+      visited.add(controller.node);
+      chain.push(controller);
+    }
+    return chain;
+  }
+
+  /**
+   * Finds the declaration of the method a controller file runs (see
+   * `findMethodInControllerFile`) and the file declaring it.
+   */
+  findMethodDeclaration(
+    controllerPath: string,
+    methodName: string
+  ): { sourceFile: ts.SourceFile; node: ts.Node } | null {
+    const location = this.findMethodInControllerFile(
+      controllerPath,
+      methodName
+    );
+    const sourceFile = location && this.getSourceFile(location.filePath);
+    const node = sourceFile && findDeclarationAt(sourceFile, location.range);
+    return node ? { sourceFile, node } : null;
+  }
+
+  /**
+   * Resolves a controller method, falling back to the top of the controller
+   * file when the method cannot be found.
+   */
+  resolveControllerMethod(
+    controllerPath: string,
+    methodName: string | undefined
+  ): SourceLocation {
+    return (
+      (methodName &&
+        this.findMethodInControllerFile(controllerPath, methodName)) || {
+        filePath: controllerPath,
+        range: FILE_START,
+      }
+    );
+  }
+
+  /**
+   * Resolves the module mounted by `router.group(routesFn)`: through its
+   * import, then the `#routes/*` directory, then a sibling file.
+   */
+  resolveRoutesModule(
+    moduleName: string,
+    projectRoot: string,
+    sourceFile: ts.SourceFile
+  ): string | null {
+    const importPath = findImportPath(moduleName, sourceFile);
+    if (importPath) {
+      const modulePath = this.importResolver.resolve(
+        importPath,
+        sourceFile.fileName,
+        projectRoot
+      );
+      if (modulePath) return modulePath;
+    }
+
+    const basePath = this.importResolver.getWildcardBaseDir(
+      "#routes/*",
+      projectRoot
+    );
+    if (basePath) {
+      const found = [
+        path.join(basePath, `${moduleName}.ts`),
+        path.join(basePath, `${moduleName}.js`),
+      ].find((p) => fs.existsSync(p));
+      if (found) return found;
+    }
+
+    const localPath = path.join(
+      path.dirname(sourceFile.fileName),
+      `${moduleName}.ts`
+    );
+    return fs.existsSync(localPath) ? localPath : null;
+  }
+
+  /**
+   * Resolves `controllers.users` to the controller file through the object
+   * it is picked from, declared in the routes file or imported into it.
+   */
+  private resolveControllerFromMap(
+    mapName: string,
+    key: string,
+    routesFile: string,
+    projectRoot: string
+  ): string | null {
+    const sourceFile = this.getSourceFile(routesFile);
+    if (!sourceFile) return null;
+
+    let mapFile = sourceFile;
+    let importPath = findControllerMapImportPath(sourceFile, mapName, key);
+    if (!importPath) {
+      const binding = findImportBinding(mapName, sourceFile);
+      const imported =
+        binding &&
+        this.getImportedSourceFile(binding.importPath, routesFile, projectRoot);
+      if (!binding || !imported) return null;
+
+      mapFile = imported;
+      importPath = findControllerMapImportPath(
+        imported,
+        binding.importedName,
+        key
+      );
+    }
+
+    return (
+      importPath &&
+      this.importResolver.resolve(importPath, mapFile.fileName, projectRoot)
+    );
+  }
+
+  /**
+   * Parses a file, reusing the previous tree while the file is unchanged on
+   * disk.
+   */
+  getSourceFile(filePath: string): ts.SourceFile | null {
+    let mtime: number;
+    try {
+      mtime = fs.statSync(filePath).mtime.getTime();
+    } catch {
+      return null;
+    }
+
+    const cached = this.sourceFiles.get(filePath);
+    if (cached && cached.mtime === mtime) return cached.sourceFile;
+
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      fs.readFileSync(filePath, "utf8"),
+      ts.ScriptTarget.Latest,
+      true
+    );
+    this.sourceFiles.set(filePath, { mtime, sourceFile });
+    return sourceFile;
+  }
+
+  private getImportedSourceFile(
+    specifier: string,
+    fromFile: string,
+    projectRoot?: string
+  ): ts.SourceFile | null {
+    const filePath = this.importResolver.resolve(
+      specifier,
+      fromFile,
+      projectRoot
+    );
+    return filePath ? this.getSourceFile(filePath) : null;
+  }
+
+  /**
+   * Finds the class a module exports under `exportName` ("default" for the
+   * default export), through `export { default } from`, `export * from` and
+   * `export default X` aliases.
+   */
+  private resolveExportedClass(
+    sourceFile: ts.SourceFile,
+    exportName: string,
+    visited: Set<string>
+  ): ControllerClass | null {
+    const key = `${sourceFile.fileName}#export:${exportName}`;
+    if (visited.has(key)) return null;
+    visited.add(key);
+
+    const starExports: ts.SourceFile[] = [];
+    for (const statement of sourceFile.statements) {
+      if (
+        ts.isClassDeclaration(statement) &&
+        hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+      ) {
+        const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+        if (
+          exportName === "default"
+            ? isDefault
+            : !isDefault && statement.name?.text === exportName
+        ) {
+          return { sourceFile, node: statement };
+        }
+      }
+
+      if (
+        ts.isExportAssignment(statement) &&
+        !statement.isExportEquals &&
+        exportName === "default"
+      ) {
+        return this.resolveClassExpression(
+          sourceFile,
+          statement.expression,
+          visited
+        );
+      }
+
+      if (
+        ts.isVariableStatement(statement) &&
+        hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+      ) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (
+            ts.isIdentifier(declaration.name) &&
+            declaration.name.text === exportName &&
+            declaration.initializer
+          ) {
+            return this.resolveClassExpression(
+              sourceFile,
+              declaration.initializer,
+              visited
+            );
+          }
+        }
+      }
+
+      if (!ts.isExportDeclaration(statement) || statement.isTypeOnly) continue;
+
+      const moduleSpecifier =
+        statement.moduleSpecifier &&
+        ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : null;
+
+      // export * from './module' (never re-exports a default export)
+      if (!statement.exportClause) {
+        const target =
+          moduleSpecifier &&
+          this.getImportedSourceFile(moduleSpecifier, sourceFile.fileName);
+        if (target && exportName !== "default") starExports.push(target);
+        continue;
+      }
+      if (!ts.isNamedExports(statement.exportClause)) continue;
+
+      const element = statement.exportClause.elements.find(
+        (element) => element.name.text === exportName
+      );
+      if (!element) continue;
+
+      const localName = (element.propertyName || element.name).text;
+      if (!moduleSpecifier) {
+        return this.resolveLocalClass(sourceFile, localName, visited);
+      }
+      const target = this.getImportedSourceFile(
+        moduleSpecifier,
+        sourceFile.fileName
+      );
+      return target && this.resolveExportedClass(target, localName, visited);
+    }
+
+    for (const target of starExports) {
+      const found = this.resolveExportedClass(target, exportName, visited);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  /**
+   * Finds the class a local name refers to: a class declaration, a
+   * `const X = class ...` alias, or an imported class.
+   */
+  private resolveLocalClass(
+    sourceFile: ts.SourceFile,
+    localName: string,
+    visited: Set<string>
+  ): ControllerClass | null {
+    const key = `${sourceFile.fileName}#local:${localName}`;
+    if (visited.has(key)) return null;
+    visited.add(key);
+
+    for (const statement of sourceFile.statements) {
+      if (
+        ts.isClassDeclaration(statement) &&
+        statement.name?.text === localName
+      ) {
+        return { sourceFile, node: statement };
+      }
+
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (
+            ts.isIdentifier(declaration.name) &&
+            declaration.name.text === localName &&
+            declaration.initializer
+          ) {
+            return this.resolveClassExpression(
+              sourceFile,
+              declaration.initializer,
+              visited
+            );
+          }
+        }
+      }
+    }
+
+    const binding = findImportBinding(localName, sourceFile);
+    const target =
+      binding &&
+      this.getImportedSourceFile(binding.importPath, sourceFile.fileName);
+    return (
+      target &&
+      this.resolveExportedClass(target, binding.importedName, visited)
+    );
+  }
+
+  private resolveClassExpression(
+    sourceFile: ts.SourceFile,
+    expression: ts.Expression,
+    visited: Set<string>
+  ): ControllerClass | null {
+    while (
+      ts.isParenthesizedExpression(expression) ||
+      ts.isAsExpression(expression) ||
+      ts.isSatisfiesExpression(expression)
+    ) {
+      expression = expression.expression;
+    }
+
+    if (ts.isClassExpression(expression)) {
+      return { sourceFile, node: expression };
+    }
+    if (ts.isIdentifier(expression)) {
+      return this.resolveLocalClass(sourceFile, expression.text, visited);
+    }
+    return null;
+  }
+
+  /**
+   * Looks a method up on a class and then on its base classes, the way it is
+   * looked up at runtime.
+   */
+  private findMethodInClass(
+    controller: ControllerClass,
+    methodName: string,
+    visited: Set<ts.ClassLikeDeclaration>
+  ): SourceLocation | null {
+    if (visited.has(controller.node)) return null;
+    visited.add(controller.node);
+
+    const { sourceFile, node } = controller;
+    const member = node.members.find(
+      (member) =>
+        (ts.isMethodDeclaration(member) || ts.isPropertyDeclaration(member)) &&
+        ts.isIdentifier(member.name) &&
+        member.name.text === methodName
+    );
+    if (member?.name) {
+      return {
+        filePath: sourceFile.fileName,
+        range: getRange(sourceFile, member.name),
+      };
+    }
+
+    const base = this.resolveBaseClass(controller);
+    return base && this.findMethodInClass(base, methodName, visited);
+  }
+
+  /** The class a class `extends`, when it names one. */
+  private resolveBaseClass({
+    sourceFile,
+    node,
+  }: ControllerClass): ControllerClass | null {
+    const baseClass = node.heritageClauses?.find(
+      (clause) => clause.token === ts.SyntaxKind.ExtendsKeyword
+    )?.types[0]?.expression;
+    if (!baseClass || !ts.isIdentifier(baseClass)) return null;
+
+    return this.resolveLocalClass(sourceFile, baseClass.text, new Set());
+  }
+}
+
+/**
+ * Finds the declaration of a controller method by name: methods of the
+ * default-exported class first, then of other classes (and arrow function
+ * properties), then exported functions.
+ */
+export function findBestMethodNameNode(
+  sourceFile: ts.SourceFile,
+  methodName: string
+): ts.Identifier | null {
+  const candidates: { node: ts.Identifier; priority: number }[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isMethodDeclaration(node) &&
+      node.name &&
+      ts.isIdentifier(node.name) &&
+      node.name.text === methodName
+    ) {
+      let priority = 2;
+
+      let parent: ts.Node = node.parent;
+      while (parent) {
+        if (
+          ts.isClassDeclaration(parent) &&
+          parent.modifiers?.some(
+            (m) => m.kind === ts.SyntaxKind.ExportKeyword
+          ) &&
+          parent.modifiers?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword)
+        ) {
+          priority = 1;
+          break;
+        }
+        if (ts.isClassDeclaration(parent)) {
+          priority = 2;
+          break;
+        }
+        parent = parent.parent;
+      }
+
+      candidates.push({ node: node.name, priority });
+    }
+
+    if (
+      ts.isPropertyDeclaration(node) &&
+      node.name &&
+      ts.isIdentifier(node.name) &&
+      node.name.text === methodName
+    ) {
+      candidates.push({ node: node.name, priority: 2 });
+    }
+
+    if (
+      ts.isFunctionDeclaration(node) &&
+      node.name &&
+      ts.isIdentifier(node.name) &&
+      node.name.text === methodName &&
+      node.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+    ) {
+      candidates.push({ node: node.name, priority: 3 });
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  if (candidates.length === 0) return null;
+
+  candidates.sort((a, b) => a.priority - b.priority);
+  return candidates[0].node;
+}
+
+/** The method or function whose name starts where `range` starts. */
+function findDeclarationAt(
+  sourceFile: ts.SourceFile,
+  range: SourceRange
+): ts.Node | null {
+  let found: ts.Node | null = null;
+  const visit = (node: ts.Node) => {
+    if (found) return;
+    if (
+      (ts.isMethodDeclaration(node) ||
+        ts.isPropertyDeclaration(node) ||
+        ts.isFunctionDeclaration(node)) &&
+      node.name
+    ) {
+      const { start } = getRange(sourceFile, node.name);
+      if (
+        start.line === range.start.line &&
+        start.character === range.start.character
+      ) {
+        found = node;
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    !!ts.getModifiers(node)?.some((modifier) => modifier.kind === kind)
+  );
+}
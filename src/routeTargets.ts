@@ -0,0 +1,135 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { AdonisRoutesDefinitionProvider } from "./definitionProvider";
+import { RouteIndex } from "./routeIndex";
+import { RouteRecord } from "./routeParser";
+
+export interface RouteTarget {
+  route: RouteRecord;
+  controllerPath: string;
+  methodName: string;
+  /**
+   * Declaration of the method the route runs, in a base controller for
+   * inherited methods. Null when it cannot be found.
+   */
+  location: vscode.Location | null;
+}
+
+/**
+ * Maps indexed routes to the controller file and method their handler points
+ * at, using the same import resolution as Go to Definition.
+ */
+export class RouteTargets {
+  private targets: RouteTarget[] | null = null;
+
+  constructor(
+    private routeIndex: RouteIndex,
+    private definitionProvider: AdonisRoutesDefinitionProvider
+  ) {
+    routeIndex.onDidChange(() => (this.targets = null));
+  }
+
+  /**
+   * Drops resolved targets, e.g. after controller files were created or
+   * deleted.
+   */
+  invalidate() {
+    this.targets = null;
+  }
+
+  getTargets(): RouteTarget[] {
+    if (!this.targets) {
+      this.targets = [];
+      for (const route of this.routeIndex.getRoutes()) {
+        const target = this.resolveTarget(route);
+        if (target) this.targets.push(target);
+      }
+    }
+    return this.targets;
+  }
+
+  /**
+   * Routes running a controller method, matched on the declaration the method
+   * resolves to so that a method declared in a base controller collects the
+   * routes of every subclass inheriting it. Without a method, the routes
+   * pointing at the controller and those running a method it declares.
+   */
+  getTargetsForController(
+    controllerPath: string,
+    methodName?: string
+  ): RouteTarget[] {
+    const normalizedPath = path.normalize(controllerPath);
+    if (!methodName) {
+      return this.getTargets().filter(
+        (target) =>
+          target.controllerPath === normalizedPath ||
+          (target.location &&
+            path.normalize(target.location.uri.fsPath) === normalizedPath)
+      );
+    }
+
+    const location = this.definitionProvider.findMethodInControllerFile(
+      normalizedPath,
+      methodName
+    );
+    return this.getTargets().filter((target) =>
+      location && target.location
+        ? isSameLocation(target.location, location)
+        : target.controllerPath === normalizedPath &&
+          target.methodName === methodName
+    );
+  }
+
+  resolveTarget(route: RouteRecord): RouteTarget | null {
+    const handler = route.handler;
+    if (!handler) return null;
+
+    const projectRoot = this.definitionProvider.findProjectRoot(
+      route.filePath
+    );
+    if (!projectRoot) return null;
+
+    const controllerPath = this.definitionProvider.resolveHandlerController(
+      handler,
+      route.filePath,
+      projectRoot
+    );
+    if (!controllerPath) return null;
+
+    // Controllers used without a method run their `handle` method
+    const methodName = handler.methodName || "handle";
+    return {
+      route,
+      controllerPath: path.normalize(controllerPath),
+      methodName,
+      location: this.definitionProvider.findMethodInControllerFile(
+        controllerPath,
+        methodName
+      ),
+    };
+  }
+
+  /**
+   * Resolves the controller method executed by a route, falling back to the
+   * top of the controller file when the method cannot be found.
+   */
+  resolveLocation(route: RouteRecord): vscode.Location | null {
+    const target = this.resolveTarget(route);
+    if (!target) return null;
+
+    return (
+      target.location ||
+      new vscode.Location(
+        vscode.Uri.file(target.controllerPath),
+        new vscode.Position(0, 0)
+      )
+    );
+  }
+}
+
+function isSameLocation(a: vscode.Location, b: vscode.Location): boolean {
+  return (
+    path.normalize(a.uri.fsPath) === path.normalize(b.uri.fsPath) &&
+    a.range.start.isEqual(b.range.start)
+  );
+}
@@ -0,0 +1,129 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { sortByRegistrationOrder } from "./routeConflicts";
+import { RouteIndex } from "./routeIndex";
+import { RouteRecord } from "./routeParser";
+import { TestRequest, findTestRequests, matchTestRequest } from "./routeTests";
+
+export const TEST_FILES_GLOB = "**/tests/functional/**/*.spec.ts";
+const EXCLUDE_GLOB = "**/node_modules/**";
+
+/**
+ * Keeps the requests sent by the Japa functional tests of the workspace and
+ * the routes they reach. Test files are re-read when they change on disk.
+ */
+export class RouteTestIndex implements vscode.Disposable {
+  private requests = new Map<string, TestRequest[]>();
+  /** Tests reaching each route, computed on demand. */
+  private coverage: Map<RouteRecord, TestRequest[]> | null = null;
+  private ready: Promise<void> | null = null;
+  private disposables: vscode.Disposable[] = [];
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private routeIndex: RouteIndex) {
+    this.disposables.push(
+      routeIndex.onDidChange(() => this.invalidate()),
+      this.changeEmitter
+    );
+  }
+
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.scanWorkspace();
+      const watcher = vscode.workspace.createFileSystemWatcher(TEST_FILES_GLOB);
+      this.disposables.push(
+        watcher,
+        watcher.onDidCreate((uri) => this.refreshFile(uri.fsPath)),
+        watcher.onDidChange((uri) => this.refreshFile(uri.fsPath)),
+        watcher.onDidDelete((uri) => {
+          if (this.requests.delete(uri.fsPath)) this.invalidate();
+        })
+      );
+    }
+    return this.ready;
+  }
+
+  /** Tests whose requests reach a route. */
+  getTestsForRoute(route: RouteRecord): TestRequest[] {
+    return this.getCoverage().get(route) || [];
+  }
+
+  /**
+   * Routes of the test file's app that a request reaches, matched in
+   * registration order.
+   */
+  findRoutes(request: TestRequest): RouteRecord[] {
+    return matchTestRequest(
+      request,
+      this.orderRoutes(this.routeIndex.getRoutesForFile(request.filePath))
+    );
+  }
+
+  dispose() {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+
+  private getCoverage(): Map<RouteRecord, TestRequest[]> {
+    if (this.coverage) return this.coverage;
+
+    const coverage = new Map<RouteRecord, TestRequest[]>();
+    // Test files of the same app share their ordered routes
+    const orderedRoutes = new Map<RouteRecord[], RouteRecord[]>();
+    for (const [filePath, requests] of this.requests) {
+      const appRoutes = this.routeIndex.getRoutesForFile(filePath);
+      let routes = orderedRoutes.get(appRoutes);
+      if (!routes) {
+        routes = this.orderRoutes(appRoutes);
+        orderedRoutes.set(appRoutes, routes);
+      }
+      for (const request of requests) {
+        for (const route of matchTestRequest(request, routes)) {
+          coverage.set(route, [...(coverage.get(route) || []), request]);
+        }
+      }
+    }
+    this.coverage = coverage;
+    return coverage;
+  }
+
+  private orderRoutes(routes: RouteRecord[]): RouteRecord[] {
+    return sortByRegistrationOrder(routes, (filePath) =>
+      this.routeIndex.getFileOrder(filePath)
+    );
+  }
+
+  private async scanWorkspace(): Promise<void> {
+    const uris = await vscode.workspace.findFiles(
+      TEST_FILES_GLOB,
+      EXCLUDE_GLOB
+    );
+    console.log("Indexing functional test files:", uris.length);
+    for (const uri of uris) {
+      this.readFile(uri.fsPath);
+    }
+    this.invalidate();
+  }
+
+  private refreshFile(filePath: string) {
+    this.readFile(filePath);
+    this.invalidate();
+  }
+
+  private readFile(filePath: string) {
+    try {
+      const text = fs.readFileSync(filePath, "utf8");
+      this.requests.set(filePath, findTestRequests(filePath, text));
+    } catch (error) {
+      console.error("Failed to index test file:", filePath, error);
+      this.requests.delete(filePath);
+    }
+  }
+
+  private invalidate() {
+    this.coverage = null;
+    this.changeEmitter.fire();
+  }
+}
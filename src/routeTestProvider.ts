@@ -0,0 +1,164 @@
+import * as vscode from "vscode";
+import { formatHandler, formatMethods, formatUrl } from "./routeFormat";
+import { RouteIndex } from "./routeIndex";
+import { openRoute, toVscodeRange } from "./routeNavigation";
+import { RouteRecord, containsPosition } from "./routeParser";
+import { RouteTargets } from "./routeTargets";
+import { RouteTestIndex } from "./routeTestIndex";
+import { TestRequest, findTestRequests } from "./routeTests";
+
+interface UntestedRouteItem extends vscode.QuickPickItem {
+  route: RouteRecord;
+}
+
+/**
+ * Links routes and the Japa functional tests requesting them: a CodeLens
+ * above each route counting its tests, and Go to Definition from the URL or
+ * route name a test requests to the route and its controller method.
+ */
+export class RouteTestProvider
+  implements vscode.CodeLensProvider, vscode.DefinitionProvider
+{
+  readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+  constructor(
+    private routeIndex: RouteIndex,
+    private routeTestIndex: RouteTestIndex,
+    private routeTargets: RouteTargets
+  ) {
+    this.onDidChangeCodeLenses = routeTestIndex.onDidChange;
+  }
+
+  provideCodeLenses(
+    document: vscode.TextDocument
+  ): vscode.ProviderResult<vscode.CodeLens[]> {
+    if (!this.routeIndex.isRoutesFile(document.fileName)) return [];
+
+    try {
+      // One lens per router call: resources and mounted modules register
+      // several routes from the same call
+      const calls = new Map<string, RouteRecord[]>();
+      for (const route of this.routeIndex.getRoutesInFile(document.fileName)) {
+        const key = `${route.range.start.line}:${route.range.start.character}`;
+        calls.set(key, [...(calls.get(key) || []), route]);
+      }
+
+      return Array.from(calls.values()).map((routes) =>
+        this.createLens(document, routes)
+      );
+    } catch (error) {
+      console.error("AdonisJS Routes Goto Error:", error);
+      return [];
+    }
+  }
+
+  provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.Location[]> {
+    try {
+      const request = findTestRequests(
+        document.fileName,
+        document.getText()
+      ).find((request) => containsPosition(request.range, position));
+      if (!request) return null;
+
+      const locations: vscode.Location[] = [];
+      for (const route of this.routeTestIndex.findRoutes(request)) {
+        locations.push(
+          new vscode.Location(
+            vscode.Uri.file(route.filePath),
+            toVscodeRange(route.patternRange)
+          )
+        );
+        const handler = this.routeTargets.resolveLocation(route);
+        if (handler) locations.push(handler);
+      }
+      return locations;
+    } catch (error) {
+      console.error("AdonisJS Routes Goto Error:", error);
+      return null;
+    }
+  }
+
+  private createLens(
+    document: vscode.TextDocument,
+    routes: RouteRecord[]
+  ): vscode.CodeLens {
+    const requests = routes.flatMap((route) =>
+      this.routeTestIndex.getTestsForRoute(route)
+    );
+    const start = toVscodeRange(routes[0].range).start;
+    const range = new vscode.Range(start, start);
+    if (requests.length === 0) {
+      return new vscode.CodeLens(range, { title: "No tests", command: "" });
+    }
+
+    const testCount = new Set(requests.map(formatTest)).size;
+    return new vscode.CodeLens(range, {
+      title: testCount === 1 ? "1 test" : `${testCount} tests`,
+      tooltip: Array.from(new Set(requests.map(formatTest))).join("\n"),
+      command: "editor.action.showReferences",
+      arguments: [
+        document.uri,
+        start,
+        requests.map(
+          (request) =>
+            new vscode.Location(
+              vscode.Uri.file(request.filePath),
+              toVscodeRange(request.range)
+            )
+        ),
+      ],
+    });
+  }
+}
+
+/** The test around a request, its file when the title is unknown. */
+function formatTest(request: TestRequest): string {
+  const filePath = vscode.workspace.asRelativePath(request.filePath);
+  return request.testName ? `${filePath}: ${request.testName}` : filePath;
+}
+
+/**
+ * Lists the routes that no functional test requests, and opens the picked
+ * one.
+ */
+export async function showUntestedRoutes(
+  routeIndex: RouteIndex,
+  routeTestIndex: RouteTestIndex
+) {
+  await Promise.all([routeIndex.initialize(), routeTestIndex.initialize()]);
+
+  const untested = routeIndex
+    .getRoutes()
+    .filter((route) => routeTestIndex.getTestsForRoute(route).length === 0);
+  if (untested.length === 0) {
+    vscode.window.showInformationMessage(
+      "Every route is requested by at least one functional test."
+    );
+    return;
+  }
+
+  const item = await vscode.window.showQuickPick<UntestedRouteItem>(
+    untested.map((route) => {
+      const handler = formatHandler(route);
+      return {
+        label: `${formatMethods(route)} ${formatUrl(route)}`,
+        description: handler ? `→ ${handler}` : undefined,
+        detail: `${vscode.workspace.asRelativePath(route.filePath)}:${
+          route.range.start.line + 1
+        }`,
+        route,
+      };
+    }),
+    {
+      placeHolder: `${untested.length} of ${
+        routeIndex.getRoutes().length
+      } routes have no functional test`,
+      matchOnDescription: true,
+      matchOnDetail: true,
+    }
+  );
+  if (item) await openRoute(item.route);
+}
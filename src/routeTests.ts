@@ -0,0 +1,233 @@
+import * as ts from "typescript";
+import { paramMatches } from "./routeConflicts";
+import { RouteRecord, SourceRange, getRange } from "./routeParser";
+
+/**
+ * A request sent by a Japa functional test through the API client
+ * (`client.get('/users/1')`) or the browser client (`visit(...)`).
+ */
+export interface TestRequest {
+  filePath: string;
+  /** The HTTP verb, `GET` for `visit()`. */
+  method: string;
+  /** The path requested, see `DYNAMIC_PART` for interpolations. */
+  url?: string;
+  /** The route named through `route('users.show')` or the URL builder. */
+  routeName?: string;
+  /** Range of the URL or route name argument. */
+  range: SourceRange;
+  /** Title of the enclosing `test('...')`. */
+  testName?: string;
+}
+
+/** Stands for the `${...}` parts of template literal URLs. */
+const DYNAMIC_PART = "\0";
+
+const CLIENT_METHODS: Record<string, string> = {
+  get: "GET",
+  post: "POST",
+  put: "PUT",
+  patch: "PATCH",
+  delete: "DELETE",
+  head: "HEAD",
+  options: "OPTIONS",
+  visit: "GET",
+};
+/** Helpers and URL builder methods taking a route name. */
+const ROUTE_HELPERS = ["route", "signedRoute"];
+const URL_BUILDER_METHODS = ["makeUrl", "makeSignedUrl", "make", "makeSigned"];
+
+/**
+ * Finds the requests a test file sends through `client`: literal URLs,
+ * template literals with interpolated params, and named routes.
+ */
+export function findTestRequests(
+  fileName: string,
+  text: string
+): TestRequest[] {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const requests: TestRequest[] = [];
+
+  const visit = (node: ts.Node) => {
+    const method = ts.isCallExpression(node) && getClientMethod(node);
+    const arg = method && (node as ts.CallExpression).arguments[0];
+    if (method && arg) {
+      const request = readRequestTarget(arg, sourceFile);
+      if (request) {
+        requests.push({
+          filePath: fileName,
+          method,
+          ...request,
+          testName: findTestName(node),
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return requests;
+}
+
+/**
+ * The routes a test request reaches. Named requests reach every route with
+ * that name; URLs reach the first matching route of `routes`, which are
+ * expected in registration order, as the router would dispatch them.
+ */
+export function matchTestRequest(
+  request: TestRequest,
+  routes: RouteRecord[]
+): RouteRecord[] {
+  const candidates = routes.filter((route) =>
+    acceptsMethod(route, request.method)
+  );
+  if (request.routeName) {
+    return candidates.filter((route) => route.name === request.routeName);
+  }
+
+  // Interpolations are most likely ids: a static segment they could spell is
+  // only considered when no param route matches
+  const url = request.url!;
+  const route =
+    candidates.find((candidate) => matchesUrl(candidate, url, false)) ||
+    candidates.find((candidate) => matchesUrl(candidate, url, true));
+  return route ? [route] : [];
+}
+
+/**
+ * `client.get(...)`, also reached through the test context as
+ * `ctx.client.get(...)`, and the browser plugin's `visit(...)`.
+ */
+function getClientMethod(call: ts.CallExpression): string | null {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) return callee.text === "visit" ? "GET" : null;
+  if (!ts.isPropertyAccessExpression(callee)) return null;
+
+  const method = CLIENT_METHODS[callee.name.text];
+  const receiver = callee.expression;
+  const isClient =
+    (ts.isIdentifier(receiver) && receiver.text === "client") ||
+    (ts.isPropertyAccessExpression(receiver) &&
+      receiver.name.text === "client");
+  return method && isClient ? method : null;
+}
+
+function readRequestTarget(
+  arg: ts.Expression,
+  sourceFile: ts.SourceFile
+): Pick<TestRequest, "url" | "routeName" | "range"> | null {
+  if (ts.isStringLiteralLike(arg)) {
+    return { url: toPath(arg.text), range: getRange(sourceFile, arg) };
+  }
+  if (ts.isTemplateExpression(arg)) {
+    const url =
+      arg.head.text +
+      arg.templateSpans
+        .map((span) => DYNAMIC_PART + span.literal.text)
+        .join("");
+    return { url: toPath(url), range: getRange(sourceFile, arg) };
+  }
+
+  // `route('users.show', { id })` or `router.makeUrl('users.show')`
+  const nameArg =
+    ts.isCallExpression(arg) && isRouteNameCall(arg) && arg.arguments[0];
+  if (nameArg && ts.isStringLiteralLike(nameArg)) {
+    return { routeName: nameArg.text, range: getRange(sourceFile, nameArg) };
+  }
+  return null;
+}
+
+function isRouteNameCall(call: ts.CallExpression): boolean {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) return ROUTE_HELPERS.includes(callee.text);
+  return (
+    ts.isPropertyAccessExpression(callee) &&
+    URL_BUILDER_METHODS.includes(callee.name.text)
+  );
+}
+
+/** Drops the origin, query string and fragment of a URL. */
+function toPath(url: string): string {
+  return url
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, "")
+    .replace(/[?#].*$/, "");
+}
+
+/** Title of the `test('...')` call around a node. */
+function findTestName(node: ts.Node): string | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (
+      ts.isCallExpression(current) &&
+      ts.isIdentifier(current.expression) &&
+      current.expression.text === "test" &&
+      current.arguments.length > 0 &&
+      ts.isStringLiteralLike(current.arguments[0])
+    ) {
+      return current.arguments[0].text;
+    }
+  }
+  return undefined;
+}
+
+function acceptsMethod(route: RouteRecord, method: string): boolean {
+  // `router.route()` without methods answers every verb
+  if (route.methods.length === 0 || route.methods.includes("ANY")) return true;
+  return (
+    route.methods.includes(method) ||
+    (method === "HEAD" && route.methods.includes("GET"))
+  );
+}
+
+/**
+ * Whether a route pattern matches a requested path. Interpolated parts match
+ * any param, and with `spellStatic` any static segment they could spell.
+ */
+function matchesUrl(
+  route: RouteRecord,
+  url: string,
+  spellStatic: boolean
+): boolean {
+  const pattern = route.url.split("/").filter(Boolean);
+  const segments = url.split("/").filter(Boolean);
+  const matchers = new Map(
+    route.params.map((param) => [param.name, param.matcher])
+  );
+
+  for (let i = 0; i < pattern.length; i++) {
+    const part = pattern[i];
+    const segment = segments[i];
+
+    if (part === "*") return segments.length > i;
+    if (segment === undefined) {
+      // Trailing optional params match a shorter URL
+      return pattern.slice(i).every((p) => p.endsWith("?"));
+    }
+    if (part.startsWith(":")) {
+      const matcher = matchers.get(part.slice(1).replace(/\?$/, ""));
+      if (segment.includes(DYNAMIC_PART)) continue;
+      if (!paramMatches(matcher, segment)) return false;
+    } else if (!segmentMatches(part, segment, spellStatic)) {
+      return false;
+    }
+  }
+  return segments.length === pattern.length;
+}
+
+function segmentMatches(
+  part: string,
+  segment: string,
+  spellStatic: boolean
+): boolean {
+  if (!segment.includes(DYNAMIC_PART)) return part === segment;
+  if (!spellStatic) return false;
+  const source = segment
+    .split(DYNAMIC_PART)
+    .map((text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".+");
+  return new RegExp(`^${source}$`).test(part);
+}
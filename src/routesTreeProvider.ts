@@ -0,0 +1,235 @@
+import * as vscode from "vscode";
+import { formatHandler, formatMethods, formatUrl } from "./routeFormat";
+import { RouteIndex } from "./routeIndex";
+import { RouteGroup, RouteRecord, joinUrl } from "./routeParser";
+import { RouteTargets } from "./routeTargets";
+import { ValidatorResolver } from "./validators";
+
+export type RouteTreeNode = RouteFileNode | RouteGroupNode | RouteNode;
+
+interface RouteFileNode {
+  kind: "file";
+  filePath: string;
+  children: RouteTreeNode[];
+}
+
+interface RouteGroupNode {
+  kind: "group";
+  group: RouteGroup;
+  /** The group and every group around it, outermost first. */
+  groups: RouteGroup[];
+  children: RouteTreeNode[];
+}
+
+interface RouteNode {
+  kind: "route";
+  route: RouteRecord;
+}
+
+const VERB_COLORS: Record<string, string> = {
+  GET: "charts.green",
+  HEAD: "charts.green",
+  POST: "charts.yellow",
+  PUT: "charts.blue",
+  PATCH: "charts.blue",
+  DELETE: "charts.red",
+};
+
+/**
+ * Explorer view listing every indexed route, grouped by routes file and by
+ * `router.group()` nesting.
+ */
+export class RoutesTreeProvider
+  implements vscode.TreeDataProvider<RouteTreeNode>
+{
+  private roots: RouteFileNode[] | null = null;
+  private changeEmitter = new vscode.EventEmitter<RouteTreeNode | void>();
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(
+    private routeIndex: RouteIndex,
+    private routeTargets: RouteTargets,
+    private validatorResolver: ValidatorResolver
+  ) {
+    routeIndex.onDidChange(() => {
+      this.roots = null;
+      this.changeEmitter.fire();
+    });
+  }
+
+  getChildren(element?: RouteTreeNode): RouteTreeNode[] {
+    if (!element) {
+      if (!this.roots) this.roots = this.buildTree();
+      return this.roots;
+    }
+    return element.kind === "route" ? [] : element.children;
+  }
+
+  getTreeItem(element: RouteTreeNode): vscode.TreeItem {
+    switch (element.kind) {
+      case "file":
+        return this.createFileItem(element);
+      case "group":
+        return this.createGroupItem(element);
+      case "route":
+        return this.createRouteItem(element.route);
+    }
+  }
+
+  /**
+   * Adds the validators of the handler method to a route's tooltip, once the
+   * tooltip is about to show, since it parses the controller.
+   */
+  resolveTreeItem(
+    item: vscode.TreeItem,
+    element: RouteTreeNode
+  ): vscode.TreeItem {
+    if (
+      element.kind !== "route" ||
+      !(item.tooltip instanceof vscode.MarkdownString)
+    ) {
+      return item;
+    }
+
+    const target = this.routeTargets.resolveTarget(element.route);
+    const validators = target
+      ? this.validatorResolver.findMethodValidators(
+          target.controllerPath,
+          target.methodName
+        )
+      : [];
+    if (validators.length > 0) {
+      const names = validators.map((validator) => `\`${validator.name}\``);
+      item.tooltip.appendMarkdown(`\n\nValidators: ${names.join(", ")}`);
+    }
+    return item;
+  }
+
+  private createFileItem(node: RouteFileNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      vscode.Uri.file(node.filePath),
+      vscode.TreeItemCollapsibleState.Expanded
+    );
+    item.label = vscode.workspace.asRelativePath(node.filePath);
+    item.contextValue = "routesFile";
+    return item;
+  }
+
+  private createGroupItem(node: RouteGroupNode): vscode.TreeItem {
+    const prefix = joinUrl(...node.groups.map((group) => group.prefix));
+    const item = new vscode.TreeItem(
+      node.group.prefix ? prefix : "group",
+      vscode.TreeItemCollapsibleState.Expanded
+    );
+
+    const details: string[] = [];
+    if (node.group.name) details.push(`as ${node.group.name}`);
+    if (node.group.domain) details.push(`on ${node.group.domain}`);
+    if (node.group.middleware.length > 0) {
+      details.push(`⛨ ${node.group.middleware.join(", ")}`);
+    }
+    item.description = details.join(" · ");
+    item.iconPath = new vscode.ThemeIcon("folder");
+    item.contextValue = "routeGroup";
+    item.command = {
+      title: "Open Route Group",
+      command: "vscode.open",
+      arguments: [
+        vscode.Uri.file(node.group.filePath),
+        {
+          selection: new vscode.Range(
+            node.group.range.start.line,
+            node.group.range.start.character,
+            node.group.range.start.line,
+            node.group.range.start.character
+          ),
+        },
+      ],
+    };
+    return item;
+  }
+
+  private createRouteItem(route: RouteRecord): vscode.TreeItem {
+    const methods = formatMethods(route);
+    const item = new vscode.TreeItem(
+      `${methods} ${formatUrl(route)}`,
+      vscode.TreeItemCollapsibleState.None
+    );
+
+    const details: string[] = [];
+    if (route.name) details.push(route.name);
+    if (route.middleware.length > 0) {
+      details.push(`⛨ ${route.middleware.join(", ")}`);
+    }
+    item.description = details.join(" · ");
+
+    const handler = formatHandler(route);
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${methods}** \`${formatUrl(route)}\`\n\n`);
+    if (handler) tooltip.appendMarkdown(`Handler: \`${handler}\`\n\n`);
+    if (route.name) tooltip.appendMarkdown(`Name: \`${route.name}\`\n\n`);
+    if (route.middleware.length > 0) {
+      tooltip.appendMarkdown(`Middleware: ${route.middleware.join(", ")}`);
+    }
+    item.tooltip = tooltip;
+
+    item.iconPath =
+      route.kind === "resource"
+        ? new vscode.ThemeIcon("symbol-class")
+        : new vscode.ThemeIcon(
+            "symbol-method",
+            new vscode.ThemeColor(
+              VERB_COLORS[route.methods[0]] || "charts.purple"
+            )
+          );
+    item.contextValue = route.handler ? "route.withHandler" : "route";
+    item.command = {
+      title: "Open Route",
+      command: "adonisRoutesGoto.openRoute",
+      arguments: [route],
+    };
+    return item;
+  }
+
+  private buildTree(): RouteFileNode[] {
+    const files = new Map<string, RouteFileNode>();
+    const groupNodes = new Map<string, RouteGroupNode>();
+
+    for (const route of this.routeIndex.getRoutes()) {
+      let fileNode = files.get(route.filePath);
+      if (!fileNode) {
+        fileNode = { kind: "file", filePath: route.filePath, children: [] };
+        files.set(route.filePath, fileNode);
+      }
+
+      // Mounted modules carry the groups of the file mounting them, so the
+      // key is the whole group path rather than the innermost group.
+      let parent: RouteFileNode | RouteGroupNode = fileNode;
+      let key = route.filePath;
+      route.groups.forEach((group, index) => {
+        key += `>${group.id}`;
+        let groupNode = groupNodes.get(key);
+        if (!groupNode) {
+          groupNode = {
+            kind: "group",
+            group,
+            groups: route.groups.slice(0, index + 1),
+            children: [],
+          };
+          groupNodes.set(key, groupNode);
+          parent.children.push(groupNode);
+        }
+        parent = groupNode;
+      });
+
+      parent.children.push({ kind: "route", route });
+    }
+
+    return Array.from(files.values()).sort((a, b) =>
+      vscode.workspace
+        .asRelativePath(a.filePath)
+        .localeCompare(vscode.workspace.asRelativePath(b.filePath))
+    );
+  }
+}
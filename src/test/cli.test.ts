@@ -0,0 +1,73 @@
+import * as assert from "assert";
+import * as path from "path";
+import { spawnSync } from "child_process";
+import { describe, test } from "node:test";
+import { createProject, lines } from "./fixtures";
+
+const PACKAGE_JSON = JSON.stringify({
+  name: "app",
+  imports: { "#controllers/*": "./app/controllers/*.js" },
+});
+
+const USERS_CONTROLLER = lines(
+  "export default class UsersController {",
+  "  async index() {}",
+  "}"
+);
+
+/** Runs the compiled CLI, returning its exit code and last output line. */
+function run(...args: string[]): { status: number | null; summary: string } {
+  const result = spawnSync(
+    process.execPath,
+    [path.join(__dirname, "..", "cli.js"), ...args],
+    { encoding: "utf8", timeout: 30000 }
+  );
+  const output = result.stdout.trim().split("\n");
+  return { status: result.status, summary: output[output.length - 1] };
+}
+
+function createApp(...routes: string[]): string {
+  return createProject({
+    "package.json": PACKAGE_JSON,
+    "app/controllers/users_controller.ts": USERS_CONTROLLER,
+    "start/routes.ts": lines(
+      "import router from '@adonisjs/core/services/router'",
+      "const UsersController = () => import('#controllers/users_controller')",
+      ...routes
+    ),
+  });
+}
+
+describe("adonis-routes-check", () => {
+  test("exits with 0 when every route resolves", () => {
+    assert.deepStrictEqual(
+      run(createApp("router.get('/users', [UsersController, 'index'])")),
+      { status: 0, summary: "0 errors, 0 warnings." }
+    );
+  });
+
+  test("exits with 1 on errors", () => {
+    assert.deepStrictEqual(
+      run(createApp("router.get('/users', [UsersController, 'show'])")),
+      { status: 1, summary: "1 error, 0 warnings." }
+    );
+  });
+
+  test("fails on warnings only with --strict", () => {
+    const projectRoot = createApp(
+      "router.get('/users', [UsersController, 'index'])",
+      "router.get('/users', [UsersController, 'index'])"
+    );
+    assert.deepStrictEqual(run(projectRoot), {
+      status: 0,
+      summary: "0 errors, 2 warnings.",
+    });
+    assert.strictEqual(run(projectRoot, "--strict").status, 1);
+  });
+
+  test("exits with 2 when the project cannot be checked", () => {
+    const projectRoot = createProject({ "start/routes.ts": "" });
+    assert.strictEqual(run(projectRoot).status, 2);
+    assert.strictEqual(run(createApp(), "--unknown").status, 2);
+  });
+});
@@ -0,0 +1,125 @@
+import * as assert from "assert";
+import * as ts from "typescript";
+import { describe, test } from "node:test";
+import {
+  findEagerControllerImports,
+  planLazyImportConversion,
+} from "../controllerImports";
+import { parseRoutesFile } from "../routeParser";
+import { applyTextEdits, lines } from "./fixtures";
+
+function parse(text: string) {
+  const sourceFile = ts.createSourceFile(
+    "/app/start/routes.ts",
+    text,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  return { sourceFile, routes: parseRoutesFile(sourceFile).routes };
+}
+
+/** Converts every eager controller import of a routes file. */
+function convert(text: string): string {
+  const { sourceFile, routes } = parse(text);
+  return applyTextEdits(
+    text,
+    planLazyImportConversion(
+      sourceFile,
+      findEagerControllerImports(sourceFile, routes)
+    )
+  );
+}
+
+describe("findEagerControllerImports", () => {
+  test("imports from #controllers and of names used as controllers", () => {
+    const { sourceFile, routes } = parse(
+      lines(
+        "import router from '@adonisjs/core/services/router'",
+        "import UsersController from '#controllers/users_controller'",
+        "import PostsController from '../app/controllers/posts_controller.js'",
+        "import type InvoicesController from '#controllers/invoices_controller'",
+        "import { middleware } from '#start/kernel'",
+        "router.get('/posts', [PostsController, 'index'])"
+      )
+    );
+    assert.deepStrictEqual(
+      findEagerControllerImports(sourceFile, routes).map(
+        ({ localName, importPath, range }) => [
+          localName,
+          importPath,
+          range.start.line,
+        ]
+      ),
+      [
+        ["UsersController", "#controllers/users_controller", 1],
+        ["PostsController", "../app/controllers/posts_controller.js", 2],
+      ]
+    );
+  });
+});
+
+describe("planLazyImportConversion", () => {
+  test("moves the declarations after the remaining imports", () => {
+    assert.strictEqual(
+      convert(
+        lines(
+          "import router from '@adonisjs/core/services/router'",
+          "import UsersController from '#controllers/users_controller'",
+          "import { middleware } from '#start/kernel'",
+          "",
+          "router.get('/users', [UsersController, 'index'])"
+        )
+      ),
+      lines(
+        "import router from '@adonisjs/core/services/router'",
+        "import { middleware } from '#start/kernel'",
+        "",
+        "const UsersController = () => import('#controllers/users_controller')",
+        "",
+        "router.get('/users', [UsersController, 'index'])"
+      )
+    );
+  });
+
+  test("joins the existing lazy imports", () => {
+    assert.strictEqual(
+      convert(
+        lines(
+          'import router from "@adonisjs/core/services/router";',
+          'import UsersController from "#controllers/users_controller";',
+          "",
+          'const PostsController = () => import("#controllers/posts_controller");',
+          "",
+          'router.get("/users", [UsersController, "index"]);'
+        )
+      ),
+      lines(
+        'import router from "@adonisjs/core/services/router";',
+        "",
+        'const UsersController = () => import("#controllers/users_controller");',
+        'const PostsController = () => import("#controllers/posts_controller");',
+        "",
+        'router.get("/users", [UsersController, "index"]);'
+      )
+    );
+  });
+
+  test("replaces the imports when all of them are controllers", () => {
+    assert.strictEqual(
+      convert(
+        lines(
+          "import UsersController from '#controllers/users_controller'",
+          "import PostsController from '#controllers/posts_controller'",
+          "",
+          "export const controllers = { UsersController, PostsController }"
+        )
+      ),
+      lines(
+        "const UsersController = () => import('#controllers/users_controller')",
+        "const PostsController = () => import('#controllers/posts_controller')",
+        "",
+        "export const controllers = { UsersController, PostsController }"
+      )
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import * as assert from "assert";
+import * as ts from "typescript";
+import { describe, test } from "node:test";
+import { findControllerClasses } from "../controllerParser";
+import {
+  createControllerSource,
+  planControllerImport,
+  planMethodInsertion,
+} from "../controllerScaffold";
+import { applyTextEdits, lines } from "./fixtures";
+
+/** Adds a method to the first class of a controller file. */
+function addMethod(text: string, methodName: string): string {
+  const sourceFile = ts.createSourceFile(
+    "users_controller.ts",
+    text,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const node = findControllerClasses(sourceFile)[0];
+  return applyTextEdits(
+    text,
+    planMethodInsertion({ sourceFile, node }, methodName)
+  );
+}
+
+/** Declares `PostsController` lazily in a routes file. */
+function addImport(text: string): string {
+  const sourceFile = ts.createSourceFile(
+    "routes.ts",
+    text,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  return applyTextEdits(text, [
+    planControllerImport(
+      sourceFile,
+      "PostsController",
+      "#controllers/posts_controller"
+    ),
+  ]);
+}
+
+describe("createControllerSource", () => {
+  test("a default-exported class with the methods", () => {
+    assert.strictEqual(
+      createControllerSource("PostsController", ["index", "store"]),
+      lines(
+        "import type { HttpContext } from '@adonisjs/core/http'",
+        "",
+        "export default class PostsController {",
+        "  async index({ request, response }: HttpContext) {}",
+        "",
+        "  async store({ request, response }: HttpContext) {}",
+        "}"
+      )
+    );
+  });
+});
+
+describe("planControllerImport", () => {
+  test("declares the controller after the imports", () => {
+    assert.strictEqual(
+      addImport(
+        lines(
+          "import router from '@adonisjs/core/services/router'",
+          "",
+          "router.get('/posts', [PostsController, 'index'])"
+        )
+      ),
+      lines(
+        "import router from '@adonisjs/core/services/router'",
+        "",
+        "const PostsController = () => import('#controllers/posts_controller')",
+        "",
+        "router.get('/posts', [PostsController, 'index'])"
+      )
+    );
+  });
+
+  test("follows the last lazy import, its quotes and semicolons", () => {
+    assert.strictEqual(
+      addImport(
+        lines(
+          'import router from "@adonisjs/core/services/router";',
+          "",
+          'const UsersController = () => import("#controllers/users_controller");',
+          "",
+          'router.get("/posts", [PostsController, "index"]);'
+        )
+      ),
+      lines(
+        'import router from "@adonisjs/core/services/router";',
+        "",
+        'const UsersController = () => import("#controllers/users_controller");',
+        'const PostsController = () => import("#controllers/posts_controller");',
+        "",
+        'router.get("/posts", [PostsController, "index"]);'
+      )
+    );
+  });
+
+  test("opens a file without imports", () => {
+    assert.strictEqual(
+      addImport(lines("router.get('/posts', [PostsController, 'index'])")),
+      lines(
+        "const PostsController = () => import('#controllers/posts_controller')",
+        "",
+        "router.get('/posts', [PostsController, 'index'])"
+      )
+    );
+  });
+});
+
+describe("planMethodInsertion", () => {
+  test("adds the HttpContext import with the method", () => {
+    assert.strictEqual(
+      addMethod(
+        lines(
+          "export default class UsersController {",
+          "  async index() {}",
+          "}"
+        ),
+        "show"
+      ),
+      lines(
+        "import type { HttpContext } from '@adonisjs/core/http'",
+        "",
+        "export default class UsersController {",
+        "  async index() {}",
+        "",
+        "  async show({ request, response }: HttpContext) {}",
+        "}"
+      )
+    );
+  });
+
+  test("keeps an existing HttpContext import", () => {
+    assert.strictEqual(
+      addMethod(
+        lines(
+          "import type { HttpContext } from '@adonisjs/core/http'",
+          "",
+          "export default class UsersController {",
+          "    async index({ response }: HttpContext) {}",
+          "}"
+        ),
+        "store"
+      ),
+      lines(
+        "import type { HttpContext } from '@adonisjs/core/http'",
+        "",
+        "export default class UsersController {",
+        "    async index({ response }: HttpContext) {}",
+        "",
+        "    async store({ request, response }: HttpContext) {}",
+        "}"
+      )
+    );
+  });
+
+  test("fills an empty class", () => {
+    assert.strictEqual(
+      addMethod(
+        lines(
+          "import type { HttpContext } from '@adonisjs/core/http'",
+          "export default class UsersController {}"
+        ),
+        "handle"
+      ),
+      lines(
+        "import type { HttpContext } from '@adonisjs/core/http'",
+        "export default class UsersController {",
+        "  async handle({ request, response }: HttpContext) {}",
+        "}"
+      )
+    );
+  });
+
+  test("adds the method after a multi-line one", () => {
+    assert.strictEqual(
+      addMethod(
+        lines(
+          "import type { HttpContext } from '@adonisjs/core/http'",
+          "import User from '#models/user'",
+          "",
+          "export default class UsersController {",
+          "  async index() {",
+          "    return User.all()",
+          "  }",
+          "}"
+        ),
+        "show"
+      ),
+      lines(
+        "import type { HttpContext } from '@adonisjs/core/http'",
+        "import User from '#models/user'",
+        "",
+        "export default class UsersController {",
+        "  async index() {",
+        "    return User.all()",
+        "  }",
+        "",
+        "  async show({ request, response }: HttpContext) {}",
+        "}"
+      )
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SourcePosition, SourceRange } from "../routeParser";
+
+/**
+ * Writes the files of an app to a temporary directory, removed when the
+ * tests exit.
+ */
+export function createProject(files: Record<string, string>): string {
+  const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "adonis-routes-"));
+  process.on("exit", () =>
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  );
+
+  for (const [fileName, text] of Object.entries(files)) {
+    const filePath = path.join(projectRoot, fileName);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, text);
+  }
+  return projectRoot;
+}
+
+/** Joins source lines, with a trailing newline. */
+export function lines(...source: string[]): string {
+  return [...source, ""].join("\n");
+}
+
+/** Applies edits computed against `text`, the way an editor would. */
+export function applyTextEdits(
+  text: string,
+  edits: { range: SourceRange; text: string }[]
+): string {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") lineStarts.push(i + 1);
+  }
+  const toOffset = ({ line, character }: SourcePosition) =>
+    lineStarts[line] + character;
+
+  return edits
+    .map((edit) => ({
+      start: toOffset(edit.range.start),
+      end: toOffset(edit.range.end),
+      text: edit.text,
+    }))
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (result, edit) =>
+        result.slice(0, edit.start) + edit.text + result.slice(edit.end),
+      text
+    );
+}
@@ -0,0 +1,105 @@
+import * as assert from "assert";
+import * as path from "path";
+import { describe, test } from "node:test";
+import { ImportResolver, findProjectRoot } from "../importResolver";
+import { createProject } from "./fixtures";
+
+const projectRoot = createProject({
+  "package.json": JSON.stringify({
+    name: "app",
+    imports: {
+      "#controllers/*": "./app/controllers/*.js",
+      "#config/app": "./config/app.js",
+      "#models/*": {
+        browser: "./public/models/*.js",
+        default: "./app/models/*.js",
+      },
+    },
+  }),
+  "tsconfig.json": JSON.stringify({
+    compilerOptions: { baseUrl: ".", paths: { "~/*": ["./app/*"] } },
+  }),
+  "adonisrc.ts": "export default {}\n",
+  "app/controllers/users_controller.ts": "",
+  "app/controllers/admin/reports_controller.ts": "",
+  "app/models/user.ts": "",
+  "app/services/mailer.ts": "",
+  "config/app.ts": "",
+  "start/routes.ts": "",
+  "start/routes/index.ts": "",
+  "packages/admin/package.json": JSON.stringify({ name: "admin" }),
+  "packages/admin/src/routes.ts": "",
+});
+const routesFile = path.join(projectRoot, "start", "routes.ts");
+
+function resolve(specifier: string): string | null {
+  const resolved = new ImportResolver().resolve(specifier, routesFile);
+  return resolved && path.relative(projectRoot, resolved);
+}
+
+describe("import resolver", () => {
+  test("package.json subpath imports, mapped back to TypeScript", () => {
+    assert.strictEqual(
+      resolve("#controllers/users_controller"),
+      path.join("app", "controllers", "users_controller.ts")
+    );
+    assert.strictEqual(
+      resolve("#controllers/admin/reports_controller"),
+      path.join("app", "controllers", "admin", "reports_controller.ts")
+    );
+    assert.strictEqual(resolve("#config/app"), path.join("config", "app.ts"));
+  });
+
+  test("conditional targets skip unknown conditions", () => {
+    assert.strictEqual(
+      resolve("#models/user"),
+      path.join("app", "models", "user.ts")
+    );
+  });
+
+  test("tsconfig paths", () => {
+    assert.strictEqual(
+      resolve("~/services/mailer"),
+      path.join("app", "services", "mailer.ts")
+    );
+  });
+
+  test("relative specifiers, with compiled extensions and directories", () => {
+    assert.strictEqual(
+      resolve("../app/controllers/users_controller.js"),
+      path.join("app", "controllers", "users_controller.ts")
+    );
+    assert.strictEqual(
+      resolve("./routes/index.js"),
+      path.join("start", "routes", "index.ts")
+    );
+  });
+
+  test("missing modules", () => {
+    assert.strictEqual(resolve("#controllers/posts_controller"), null);
+    assert.strictEqual(resolve("#validators/user"), null);
+    assert.strictEqual(resolve("./missing.js"), null);
+  });
+
+  test("source paths of modules that do not exist yet", () => {
+    const resolver = new ImportResolver();
+    assert.strictEqual(
+      resolver.getSourcePath("#controllers/posts_controller", routesFile),
+      path.join(projectRoot, "app", "controllers", "posts_controller.ts")
+    );
+    assert.strictEqual(
+      resolver.getWildcardBaseDir("#controllers/*", projectRoot),
+      path.join(projectRoot, "app", "controllers")
+    );
+  });
+
+  test("the app root is the nearest adonisrc.ts", () => {
+    assert.strictEqual(findProjectRoot(routesFile), projectRoot);
+    assert.strictEqual(
+      findProjectRoot(
+        path.join(projectRoot, "packages", "admin", "src", "routes.ts")
+      ),
+      projectRoot
+    );
+  });
+});
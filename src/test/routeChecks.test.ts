@@ -0,0 +1,130 @@
+import * as assert from "assert";
+import * as path from "path";
+import { describe, test } from "node:test";
+import { ImportResolver } from "../importResolver";
+import { MiddlewareKernel } from "../middlewareKernel";
+import { RouteChecker, RouteProblem } from "../routeChecks";
+import { RouteResolver } from "../routeResolver";
+import { loadRoutesProject } from "../routeProject";
+import { createProject, lines } from "./fixtures";
+
+const PACKAGE_JSON = JSON.stringify({
+  name: "app",
+  imports: { "#controllers/*": "./app/controllers/*.js" },
+});
+
+const USERS_CONTROLLER = lines(
+  "export default class UsersController {",
+  "  async index() {}",
+  "}"
+);
+
+/** Checks an app like the CLI does, as `line code` pairs. */
+function check(files: Record<string, string>): string[] {
+  const projectRoot = createProject({ "package.json": PACKAGE_JSON, ...files });
+  const importResolver = new ImportResolver();
+  const checker = new RouteChecker(
+    new RouteResolver(importResolver),
+    new MiddlewareKernel(importResolver)
+  );
+  const project = loadRoutesProject(projectRoot, importResolver);
+
+  const problems: RouteProblem[] = checker.checkConflicts(
+    project.routes,
+    (filePath) => project.fileOrder.get(filePath) ?? project.fileOrder.size
+  );
+  for (const [filePath, file] of project.files) {
+    problems.push(
+      ...checker.checkFile(
+        file.sourceFile,
+        project.routes.filter((route) => route.filePath === filePath),
+        projectRoot
+      )
+    );
+  }
+  return problems
+    .filter((problem) =>
+      problem.filePath.endsWith(path.join("start", "routes.ts"))
+    )
+    .map((problem) => `${problem.range.start.line + 1} ${problem.code}`)
+    .sort();
+}
+
+describe("route checks", () => {
+  test("resolved handlers have no problems", () => {
+    assert.deepStrictEqual(
+      check({
+        "app/controllers/users_controller.ts": USERS_CONTROLLER,
+        "start/routes.ts": lines(
+          "import router from '@adonisjs/core/services/router'",
+          "import UsersController from '../app/controllers/users_controller.js'",
+          "router.get('/users', [UsersController, 'index'])",
+          "router.get('/lazy', [() => import('../app/controllers/users_controller.js'), 'index'])"
+        ),
+      }),
+      []
+    );
+  });
+
+  test("missing methods and `handle`", () => {
+    assert.deepStrictEqual(
+      check({
+        "app/controllers/users_controller.ts": USERS_CONTROLLER,
+        "start/routes.ts": lines(
+          "import router from '@adonisjs/core/services/router'",
+          "const UsersController = () => import('#controllers/users_controller')",
+          "router.get('/users', [UsersController, 'show'])",
+          "router.get('/handle', [UsersController])"
+        ),
+      }),
+      ["3 missing-method", "4 missing-handle"]
+    );
+  });
+
+  test("methods of other classes of the controller file do not count", () => {
+    assert.deepStrictEqual(
+      check({
+        "app/controllers/users_controller.ts": lines(
+          "class Presenter {",
+          "  show() {}",
+          "}",
+          "export default class UsersController {",
+          "  async index() {}",
+          "}"
+        ),
+        "start/routes.ts": lines(
+          "import router from '@adonisjs/core/services/router'",
+          "const UsersController = () => import('#controllers/users_controller')",
+          "router.get('/users/:id', [UsersController, 'show'])"
+        ),
+      }),
+      ["3 missing-method"]
+    );
+  });
+
+  test("controllers that cannot be resolved, whatever their import", () => {
+    assert.deepStrictEqual(
+      check({
+        "start/routes.ts": lines(
+          "import router from '@adonisjs/core/services/router'",
+          "import PostsController from '../app/controllers/posts_controller.js'",
+          "const UsersController = () => import('#controllers/users_controller')",
+          "router.get('/static', [PostsController, 'index'])",
+          "router.get('/lazy', [() => import('../app/controllers/posts_controller.js'), 'index'])",
+          "router.get('/variable', [UsersController, 'index'])",
+          "router.get('/string', '#controllers/users_controller.index')",
+          "router.get('/convention', [InvoicesController, 'index'])"
+        ),
+      }),
+      [
+        "2 eager-controller-import",
+        "3 missing-controller-file",
+        "4 unresolved-controller",
+        "5 unresolved-controller",
+        "6 unresolved-controller",
+        "7 missing-controller-file",
+        "8 unresolved-controller",
+      ]
+    );
+  });
+});
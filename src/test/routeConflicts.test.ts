@@ -0,0 +1,89 @@
+import * as assert from "assert";
+import { describe, test } from "node:test";
+import { findRouteConflicts, getRegistrationOrder } from "../routeConflicts";
+import { parseRoutesSource } from "../routeParser";
+import { lines } from "./fixtures";
+
+/** Conflicts of a routes file, as `kind line -> other line` sorted. */
+function conflicts(...source: string[]): string[] {
+  const { routes } = parseRoutesSource(
+    "/app/start/routes.ts",
+    lines(
+      "import router from '@adonisjs/core/services/router'",
+      "const UsersController = () => import('#controllers/users_controller')",
+      ...source
+    )
+  );
+  return findRouteConflicts(routes, (route) =>
+    getRegistrationOrder(route, () => 0)
+  )
+    .map(
+      ({ kind, route, other }) =>
+        `${kind} ${route.range.start.line + 1} -> ${other.range.start.line + 1}`
+    )
+    .sort();
+}
+
+describe("route conflicts", () => {
+  test("the same verb and url registered twice", () => {
+    assert.deepStrictEqual(
+      conflicts(
+        "router.get('/users/:id', [UsersController, 'show'])",
+        "router.get('/users/:userId', [UsersController, 'find'])",
+        "router.post('/users/:id', [UsersController, 'update'])",
+        "router.any('/users/:id', [UsersController, 'handle'])"
+      ),
+      [
+        "duplicate 3 -> 4",
+        "duplicate 3 -> 6",
+        "duplicate 4 -> 3",
+        "duplicate 4 -> 6",
+        "duplicate 5 -> 6",
+        "duplicate 6 -> 3",
+        "duplicate 6 -> 4",
+        "duplicate 6 -> 5",
+      ]
+    );
+  });
+
+  test("route names used twice", () => {
+    assert.deepStrictEqual(
+      conflicts(
+        "router.get('/users', [UsersController, 'index']).as('users')",
+        "router.get('/people', [UsersController, 'index']).as('users')",
+        "router.get('/people', [UsersController, 'index']).domain(':tenant.example.com').as('users')"
+      ),
+      ["duplicate-name 3 -> 4", "duplicate-name 4 -> 3"]
+    );
+  });
+
+  test("static routes captured by a param route registered earlier", () => {
+    assert.deepStrictEqual(
+      conflicts(
+        "router.get('/users/:id', [UsersController, 'show'])",
+        "router.get('/users/me', [UsersController, 'me'])",
+        "router.get('/files/*', [UsersController, 'files'])",
+        "router.get('/files/avatars/:id', [UsersController, 'avatar'])"
+      ),
+      [
+        "shadowed 4 -> 3",
+        "shadowed 6 -> 5",
+        "shadows 3 -> 4",
+        "shadows 5 -> 6",
+      ]
+    );
+  });
+
+  test("routes that stay reachable", () => {
+    assert.deepStrictEqual(
+      conflicts(
+        "router.get('/posts/me', [UsersController, 'me'])",
+        "router.get('/posts/:id', [UsersController, 'show'])",
+        "router.get('/users/:id', [UsersController, 'show']).where('id', router.matchers.number())",
+        "router.get('/users/me', [UsersController, 'me'])",
+        "router.post('/users/new', [UsersController, 'store'])"
+      ),
+      []
+    );
+  });
+});
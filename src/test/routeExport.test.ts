@@ -0,0 +1,94 @@
+import * as assert from "assert";
+import { describe, test } from "node:test";
+import { createRouteTableEntry, formatRouteTable } from "../routeExport";
+import { parseRoutesSource } from "../routeParser";
+import { lines } from "./fixtures";
+
+function exportRoutes(format: "markdown" | "openapi", ...source: string[]) {
+  const { routes } = parseRoutesSource(
+    "/app/start/routes.ts",
+    lines(
+      "import router from '@adonisjs/core/services/router'",
+      "const PostsController = () => import('#controllers/posts_controller')",
+      ...source
+    )
+  );
+  return formatRouteTable(
+    routes.map((route) =>
+      createRouteTableEntry(route, "start/routes.ts", {
+        controller: "PostsController",
+        method: route.handler!.methodName!,
+        file: "app/controllers/posts_controller.ts",
+        line: 3,
+      })
+    ),
+    format
+  );
+}
+
+describe("route export", () => {
+  test("OpenAPI paths, with one path per optional param", () => {
+    const document = JSON.parse(
+      exportRoutes(
+        "openapi",
+        "router.get('/posts/:id/:slug?', [PostsController, 'show']).as('posts.show').where('id', router.matchers.number())"
+      )
+    );
+    assert.deepStrictEqual(Object.keys(document.paths), [
+      "/posts/{id}",
+      "/posts/{id}/{slug}",
+    ]);
+    assert.deepStrictEqual(document.paths["/posts/{id}"].get, {
+      operationId: "posts.show",
+      summary: "PostsController.show",
+      parameters: [
+        { name: "id", in: "path", required: true, schema: { type: "integer" } },
+      ],
+      responses: { default: { description: "" } },
+      "x-adonis-handler": "app/controllers/posts_controller.ts:3",
+    });
+    // Operation ids stay unique across the variants
+    assert.strictEqual(
+      document.paths["/posts/{id}/{slug}"].get.operationId,
+      undefined
+    );
+    assert.deepStrictEqual(
+      document.paths["/posts/{id}/{slug}"].get.parameters.map(
+        (param: { name: string }) => param.name
+      ),
+      ["id", "slug"]
+    );
+  });
+
+  test("OpenAPI operations for every verb of a route", () => {
+    const document = JSON.parse(
+      exportRoutes(
+        "openapi",
+        "router.any('/webhooks', [PostsController, 'webhook']).as('webhooks')"
+      )
+    );
+    const operations = document.paths["/webhooks"];
+    assert.deepStrictEqual(Object.keys(operations), [
+      "get",
+      "post",
+      "put",
+      "patch",
+      "delete",
+    ]);
+    assert.strictEqual(operations.get.operationId, undefined);
+  });
+
+  test("Markdown table", () => {
+    assert.strictEqual(
+      exportRoutes(
+        "markdown",
+        "router.get('/posts', [PostsController, 'index']).as('posts.index')"
+      ),
+      lines(
+        "| Method | URL | Name | Middleware | Domain | Handler |",
+        "| --- | --- | --- | --- | --- | --- |",
+        "| GET | `/posts` | `posts.index` |  |  | [PostsController.index](app/controllers/posts_controller.ts#L3) |"
+      )
+    );
+  });
+});
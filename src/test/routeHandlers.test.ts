@@ -0,0 +1,205 @@
+import * as assert from "assert";
+import * as path from "path";
+import * as ts from "typescript";
+import { describe, test } from "node:test";
+import { ImportResolver } from "../importResolver";
+import { HandlerInfo, parseRoutesFile } from "../routeParser";
+import { RouteResolver } from "../routeResolver";
+import { createProject } from "./fixtures";
+
+const FILES: Record<string, string> = {
+  "package.json": JSON.stringify({
+    name: "app",
+    type: "module",
+    imports: {
+      "#controllers/*": "./app/controllers/*.js",
+      "#start/*": "./start/*.js",
+    },
+  }),
+  "adonisrc.ts": "export default {}\n",
+  "app/controllers/users_controller.ts": [
+    "export default class UsersController {",
+    "  async index() {}",
+    "",
+    "  async show() {}",
+    "",
+    "  async handle() {}",
+    "}",
+    "",
+  ].join("\n"),
+  "app/controllers/admin/reports_controller.ts": [
+    "export default class ReportsController {",
+    "  async index() {}",
+    "}",
+    "",
+  ].join("\n"),
+  "app/controllers/posts_controller.ts": [
+    "export default class PostsController {",
+    "  async store() {}",
+    "}",
+    "",
+  ].join("\n"),
+  "start/controllers.ts": [
+    "export const controllers = {",
+    "  users: () => import('#controllers/users_controller'),",
+    "}",
+    "",
+  ].join("\n"),
+  "start/routes.ts": [
+    "import router from '@adonisjs/core/services/router'",
+    "import { controllers } from '#start/controllers'",
+    "import ReportsController from '../app/controllers/admin/reports_controller.js'",
+    "const UsersController = () => import('#controllers/users_controller')",
+    "",
+    "router.get('/implicit', [UsersController])",
+    "router.get('/lazy', [() => import('#controllers/posts_controller'), 'store'])",
+    "router.get('/map', [controllers.users, 'index'])",
+    "router.get('/template', [UsersController, `show`])",
+    "router.get('/string', '#controllers/users_controller.index')",
+    "router.get('/relative-lazy', [() => import('../app/controllers/posts_controller.js'), 'store'])",
+    "router.get('/relative-static', [ReportsController, 'index'])",
+    "",
+  ].join("\n"),
+};
+
+describe("route handlers", () => {
+  const projectRoot = createProject(FILES);
+  const routesFile = path.join(projectRoot, "start/routes.ts");
+  const resolver = new RouteResolver(new ImportResolver());
+
+  const handlers = new Map<string, HandlerInfo>();
+  const sourceFile = ts.createSourceFile(
+    routesFile,
+    FILES["start/routes.ts"],
+    ts.ScriptTarget.Latest,
+    true
+  );
+  for (const route of parseRoutesFile(sourceFile).routes) {
+    if (route.handler) handlers.set(route.url, route.handler);
+  }
+
+  /**
+   * Checks the handler parsed for a route and the method it runs, given as
+   * `file:line` of the method declaration.
+   */
+  const assertHandler = (
+    url: string,
+    expected: HandlerInfo,
+    expectedMethod: string
+  ) => {
+    const handler = handlers.get(url);
+    assert.ok(handler, `no handler for ${url}`);
+    for (const [key, value] of Object.entries(expected)) {
+      assert.strictEqual(handler[key as keyof HandlerInfo], value, key);
+    }
+
+    const controllerPath = resolver.resolveHandlerController(
+      handler,
+      routesFile,
+      projectRoot
+    );
+    assert.ok(controllerPath, `no controller for ${url}`);
+    const location = resolver.findMethodInControllerFile(
+      controllerPath,
+      handler.methodName || "handle"
+    );
+    assert.ok(location, `no method for ${url}`);
+    assert.strictEqual(
+      `${path.relative(projectRoot, location.filePath)}:${
+        location.range.start.line + 1
+      }`,
+      expectedMethod
+    );
+  };
+
+  test("controller without a method runs `handle`", () => {
+    assertHandler(
+      "/implicit",
+      {
+        type: "controller",
+        controllerName: "UsersController",
+        importPath: "#controllers/users_controller",
+        methodName: undefined,
+      },
+      "app/controllers/users_controller.ts:6"
+    );
+  });
+
+  test("inline lazy import", () => {
+    assertHandler(
+      "/lazy",
+      {
+        type: "controller_import",
+        controllerName: "PostsController",
+        importPath: "#controllers/posts_controller",
+        methodName: "store",
+      },
+      "app/controllers/posts_controller.ts:2"
+    );
+  });
+
+  test("controller picked from an imported map", () => {
+    assertHandler(
+      "/map",
+      {
+        type: "controller_map",
+        controllerMap: "controllers",
+        controllerName: "users",
+        methodName: "index",
+      },
+      "app/controllers/users_controller.ts:2"
+    );
+  });
+
+  test("template literal method name", () => {
+    assertHandler(
+      "/template",
+      {
+        type: "controller",
+        controllerName: "UsersController",
+        importPath: "#controllers/users_controller",
+        methodName: "show",
+      },
+      "app/controllers/users_controller.ts:4"
+    );
+  });
+
+  test("string handler", () => {
+    assertHandler(
+      "/string",
+      {
+        type: "controller_string",
+        controllerName: "UsersController",
+        importPath: "#controllers/users_controller",
+        methodName: "index",
+      },
+      "app/controllers/users_controller.ts:2"
+    );
+  });
+
+  test("relative lazy import", () => {
+    assertHandler(
+      "/relative-lazy",
+      {
+        type: "controller_import",
+        controllerName: "PostsController",
+        importPath: "../app/controllers/posts_controller.js",
+        methodName: "store",
+      },
+      "app/controllers/posts_controller.ts:2"
+    );
+  });
+
+  test("relative static import", () => {
+    assertHandler(
+      "/relative-static",
+      {
+        type: "controller",
+        controllerName: "ReportsController",
+        importPath: "../app/controllers/admin/reports_controller.js",
+        methodName: "index",
+      },
+      "app/controllers/admin/reports_controller.ts:2"
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import * as assert from "assert";
+import { describe, test } from "node:test";
+import {
+  RouteNameReference,
+  findRouteNameReferences,
+} from "../routeNameReferences";
+import { lines } from "./fixtures";
+
+/** `line:character name [params]` per reference, `*` marking dynamic params. */
+function summarize(references: RouteNameReference[]): string[] {
+  return references.map(({ name, range, params }) => {
+    const keys = params && [
+      ...params.keys.map((key) => key.name),
+      ...(params.static ? [] : ["*"]),
+    ];
+    const suffix = keys ? ` [${keys.join(", ")}]` : "";
+    return `${range.start.line}:${range.start.character} ${name}${suffix}`;
+  });
+}
+
+describe("route name references", () => {
+  test("URL builders, redirects and router helpers", () => {
+    assert.deepStrictEqual(
+      summarize(
+        findRouteNameReferences(
+          "/app/app/controllers/users_controller.ts",
+          lines(
+            "router.builder().params({ id: 1 }).make('users.show')",
+            "router.builderForDomain('blog').makeSigned('posts.index', {})",
+            "response.redirect().toRoute('users.index')",
+            "response.redirect.toRoute('users.edit', { id, ...rest })",
+            "router.makeUrl('users.show', { id: user.id })",
+            "cache.make('users.show')",
+            "other.makeUrl('users.show')"
+          )
+        )
+      ),
+      [
+        "0:41 users.show [id]",
+        "1:44 posts.index []",
+        "2:29 users.index",
+        "3:27 users.edit [id, *]",
+        "4:16 users.show [id]",
+      ]
+    );
+  });
+
+  test("route helpers in Edge templates", () => {
+    assert.deepStrictEqual(
+      summarize(
+        findRouteNameReferences(
+          "/app/resources/views/users.edge",
+          lines(
+            "<a href=\"{{ route('users.show', { id: user.id }) }}\">",
+            "<a href=\"{{ signedRoute('users.unsubscribe', params) }}\">",
+            "{{ route('users.index') }}"
+          )
+        )
+      ),
+      [
+        "0:19 users.show [id]",
+        "1:25 users.unsubscribe [*]",
+        "2:10 users.index",
+      ]
+    );
+  });
+
+  test("modules without route name calls", () => {
+    assert.deepStrictEqual(
+      findRouteNameReferences(
+        "/app/app/services/mailer.ts",
+        "export const route = 'users.show'\n"
+      ),
+      []
+    );
+  });
+});
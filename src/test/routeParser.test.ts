@@ -0,0 +1,113 @@
+import * as assert from "assert";
+import { describe, test } from "node:test";
+import { RouteRecord, parseRoutesSource } from "../routeParser";
+import { lines } from "./fixtures";
+
+function parse(...source: string[]): RouteRecord[] {
+  return parseRoutesSource(
+    "/app/start/routes.ts",
+    lines(
+      "import router from '@adonisjs/core/services/router'",
+      "import { middleware } from '#start/kernel'",
+      "const CommentsController = () => import('#controllers/comments_controller')",
+      ...source
+    )
+  ).routes;
+}
+
+/** `METHODS url name -> method` per route, in declaration order. */
+function summarize(routes: RouteRecord[]): string[] {
+  return routes.map(
+    (route) =>
+      `${route.methods.join("|")} ${route.url} ${route.name} -> ${
+        route.handler?.methodName
+      }`
+  );
+}
+
+describe("route parser", () => {
+  test("resources expand into one route per action", () => {
+    assert.deepStrictEqual(
+      summarize(
+        parse("router.resource('posts.comments', CommentsController).apiOnly()")
+      ),
+      [
+        "GET /posts/:post_id/comments posts.comments.index -> index",
+        "POST /posts/:post_id/comments posts.comments.store -> store",
+        "GET /posts/:post_id/comments/:id posts.comments.show -> show",
+        "PUT|PATCH /posts/:post_id/comments/:id posts.comments.update -> update",
+        "DELETE /posts/:post_id/comments/:id posts.comments.destroy -> destroy",
+      ]
+    );
+  });
+
+  test("shallow resources only nest their collection routes", () => {
+    assert.deepStrictEqual(
+      summarize(
+        parse(
+          "router",
+          "  .shallowResource('posts.comments', CommentsController)",
+          "  .only(['index', 'show'])",
+          "  .params({ posts: 'post', comments: 'comment' })"
+        )
+      ),
+      [
+        "GET /posts/:post/comments posts.comments.index -> index",
+        "GET /comments/:comment posts.comments.show -> show",
+      ]
+    );
+  });
+
+  test("resource names and middleware per action", () => {
+    const routes = parse(
+      "router",
+      "  .resource('comments', CommentsController)",
+      "  .except(['create', 'edit', 'update'])",
+      "  .as('replies')",
+      "  .use(['store', 'destroy'], middleware.auth())"
+    );
+    assert.deepStrictEqual(
+      routes.map((route) => [route.name, route.middleware]),
+      [
+        ["replies.index", []],
+        ["replies.store", ["auth"]],
+        ["replies.show", []],
+        ["replies.destroy", ["auth"]],
+      ]
+    );
+  });
+
+  test("groups apply their prefix, name, middleware and matchers", () => {
+    const [route] = parse(
+      "router",
+      "  .group(() => {",
+      "    router.get('/:id?', [CommentsController, 'show']).as('show')",
+      "  })",
+      "  .prefix('/comments')",
+      "  .as('comments')",
+      "  .use(middleware.auth())",
+      "  .where('id', router.matchers.number())"
+    );
+    assert.strictEqual(route.pattern, "/:id?");
+    assert.strictEqual(route.url, "/comments/:id?");
+    assert.strictEqual(route.name, "comments.show");
+    assert.deepStrictEqual(route.middleware, ["auth"]);
+    assert.deepStrictEqual(route.params, [
+      {
+        name: "id",
+        optional: true,
+        wildcard: false,
+        matcher: "router.matchers.number()",
+      },
+    ]);
+  });
+
+  test("wildcards match any number of segments", () => {
+    const [route] = parse(
+      "router.get('/files/*', [CommentsController, 'index'])"
+    );
+    assert.deepStrictEqual(route.params, [
+      { name: "*", optional: true, wildcard: true },
+    ]);
+  });
+});
@@ -0,0 +1,12 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Loads every `*.test.js` file next to this one; their `node:test` suites run
+ * once loaded. The tests cover the modules that run outside of VS Code.
+ */
+for (const fileName of fs.readdirSync(__dirname).sort()) {
+  if (fileName.endsWith(".test.js")) {
+    require(path.join(__dirname, fileName));
+  }
+}
@@ -0,0 +1,214 @@
+import * as ts from "typescript";
+import * as path from "path";
+import { getRange } from "./routeParser";
+import { SourceLocation } from "./routeResolver";
+
+interface TypeScriptProject {
+  configPath: string;
+  configMtime: number;
+  /** Set when files were created or deleted since the config was read. */
+  stale: boolean;
+  options: ts.CompilerOptions;
+  fileNames: string[];
+  moduleCache: ts.ModuleResolutionCache;
+  languageService: ts.LanguageService;
+}
+
+/**
+ * Resolves modules and controller methods through a `ts.LanguageService` per
+ * `tsconfig.json`, so that results match what `tsc` sees (`moduleResolution`,
+ * `paths`, `allowJs`, inherited members). Disabled by default; while disabled
+ * every lookup returns null and callers use their own resolution.
+ *
+ * Files are read from disk. `fileChanged` must be called when they change so
+ * that the cached programs are updated incrementally.
+ */
+export class TypeScriptProjects {
+  private projects = new Map<string, TypeScriptProject>();
+  private documentRegistry = ts.createDocumentRegistry();
+  private versions = new Map<string, number>();
+  private projectVersion = 0;
+  private enabled = false;
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    if (!enabled) this.dispose();
+  }
+
+  /**
+   * Marks a file as changed on disk. Created and deleted files, and JSON
+   * files (`package.json#imports`), also invalidate the file lists and module
+   * resolution of the projects.
+   */
+  fileChanged(filePath: string, structural = false) {
+    const fileName = normalize(filePath);
+    this.versions.set(fileName, (this.versions.get(fileName) || 0) + 1);
+    this.projectVersion++;
+
+    if (!structural && !filePath.endsWith(".json")) return;
+    for (const project of this.projects.values()) {
+      project.stale = true;
+    }
+  }
+
+  /**
+   * Resolves a module specifier with the compiler's module resolution and
+   * the options of the project containing `fromFile`.
+   */
+  resolveModule(specifier: string, fromFile: string): string | null {
+    const project = this.getProject(fromFile);
+    if (!project) return null;
+
+    const { resolvedModule } = ts.resolveModuleName(
+      specifier,
+      fromFile,
+      project.options,
+      ts.sys,
+      project.moduleCache
+    );
+    return resolvedModule
+      ? path.normalize(resolvedModule.resolvedFileName)
+      : null;
+  }
+
+  /**
+   * Finds the declaration of a method on the instances of the class a file
+   * exports by default, letting the type checker follow aliases, re-exports
+   * and base classes.
+   */
+  findMethod(filePath: string, methodName: string): SourceLocation | null {
+    const project = this.getProject(filePath);
+    const program = project?.languageService.getProgram();
+    const sourceFile = program?.getSourceFile(normalize(filePath));
+    if (!program || !sourceFile) return null;
+
+    const checker = program.getTypeChecker();
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    const exported =
+      moduleSymbol &&
+      checker.tryGetMemberInModuleExports("default", moduleSymbol);
+    if (!exported) return null;
+
+    const classSymbol =
+      exported.flags & ts.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(exported)
+        : exported;
+    const instanceType = checker
+      .getTypeOfSymbolAtLocation(classSymbol, sourceFile)
+      .getConstructSignatures()[0]
+      ?.getReturnType();
+    const declaration = instanceType
+      ?.getProperty(methodName)
+      ?.getDeclarations()?.[0];
+    if (!declaration) return null;
+
+    const declarationFile = declaration.getSourceFile();
+    return {
+      filePath: path.normalize(declarationFile.fileName),
+      range: getRange(
+        declarationFile,
+        ts.getNameOfDeclaration(declaration) || declaration
+      ),
+    };
+  }
+
+  dispose() {
+    for (const project of this.projects.values()) {
+      project.languageService.dispose();
+    }
+    this.projects.clear();
+  }
+
+  private getProject(fromFile: string): TypeScriptProject | null {
+    if (!this.enabled) return null;
+
+    const configPath = ts.findConfigFile(
+      path.dirname(fromFile),
+      ts.sys.fileExists
+    );
+    if (!configPath) return null;
+
+    let project = this.projects.get(configPath);
+    if (!project) {
+      project = this.createProject(configPath);
+      this.projects.set(configPath, project);
+    } else if (
+      project.stale ||
+      project.configMtime !== getMtime(configPath)
+    ) {
+      this.readConfig(project);
+    }
+    return project;
+  }
+
+  private createProject(configPath: string): TypeScriptProject {
+    const host: ts.LanguageServiceHost = {
+      getProjectVersion: () => String(this.projectVersion),
+      getScriptFileNames: () => project.fileNames,
+      getScriptVersion: (fileName) =>
+        String(this.versions.get(normalize(fileName)) || 0),
+      getScriptSnapshot: (fileName) => {
+        const text = ts.sys.readFile(fileName);
+        return text === undefined
+          ? undefined
+          : ts.ScriptSnapshot.fromString(text);
+      },
+      getCurrentDirectory: () => path.dirname(configPath),
+      getCompilationSettings: () => project.options,
+      getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+      fileExists: ts.sys.fileExists,
+      readFile: ts.sys.readFile,
+      readDirectory: ts.sys.readDirectory,
+      directoryExists: ts.sys.directoryExists,
+      getDirectories: ts.sys.getDirectories,
+    };
+
+    const project: TypeScriptProject = {
+      configPath,
+      configMtime: getMtime(configPath),
+      stale: false,
+      ...parseConfig(configPath),
+      moduleCache: ts.createModuleResolutionCache(
+        path.dirname(configPath),
+        (fileName) => fileName
+      ),
+      languageService: ts.createLanguageService(host, this.documentRegistry),
+    };
+    return project;
+  }
+
+  private readConfig(project: TypeScriptProject) {
+    project.configMtime = getMtime(project.configPath);
+    project.stale = false;
+    Object.assign(project, parseConfig(project.configPath));
+    project.moduleCache.clear();
+    this.projectVersion++;
+  }
+}
+
+function parseConfig(
+  configPath: string
+): Pick<TypeScriptProject, "options" | "fileNames"> {
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  const parsed = ts.parseJsonConfigFileContent(
+    error ? {} : config,
+    ts.sys,
+    path.dirname(configPath),
+    undefined,
+    configPath
+  );
+  return { options: parsed.options, fileNames: parsed.fileNames };
+}
+
+/** TypeScript reports file names with forward slashes on every platform. */
+function normalize(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
+function getMtime(filePath: string): number {
+  return ts.sys.getModifiedTime?.(filePath)?.getTime() || 0;
+}
@@ -0,0 +1,39 @@
+import * as vscode from "vscode";
+import { toVscodeRange } from "./routeNavigation";
+import { ValidatorResolver } from "./validators";
+
+/**
+ * Go to Definition on validators in controllers: lands on the
+ * `vine.compile(...)` call declaring the validator rather than on its import.
+ */
+export class ValidatorDefinitionProvider implements vscode.DefinitionProvider {
+  constructor(private validatorResolver: ValidatorResolver) {}
+
+  provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.Definition> {
+    const wordRange = document.getWordRangeAtPosition(
+      position,
+      /[A-Za-z_$][\w$]*/
+    );
+    if (!wordRange) return null;
+
+    try {
+      const definition = this.validatorResolver.resolveValidator(
+        document.getText(wordRange),
+        document.fileName
+      );
+      return (
+        definition &&
+        new vscode.Location(
+          vscode.Uri.file(definition.filePath),
+          toVscodeRange(definition.range)
+        )
+      );
+    } catch (error) {
+      console.error("AdonisJS Routes Goto Error:", error);
+      return null;
+    }
+  }
+}
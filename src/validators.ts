@@ -0,0 +1,227 @@
+import * as ts from "typescript";
+import { ImportResolver } from "./importResolver";
+import { SourceRange, findImportBinding, getRange } from "./routeParser";
+import { RouteResolver, SourceLocation } from "./routeResolver";
+
+/** A validator passed to `request.validateUsing()` in a controller. */
+export interface ValidatorUsage {
+  name: string;
+  /** Range of the validator identifier in the controller. */
+  range: SourceRange;
+}
+
+/**
+ * The `vine.compile(...)` (or `vine.create(...)`) call declaring a
+ * validator.
+ */
+export interface ValidatorDefinition extends SourceLocation {
+  /** Name the validator is declared under in its module. */
+  name: string;
+}
+
+export interface MethodValidator extends ValidatorUsage {
+  definition: ValidatorDefinition | null;
+}
+
+/**
+ * Finds the VineJS validators controller methods validate their requests
+ * with, and the `vine.compile(...)` calls declaring them, following imports
+ * through `package.json#imports` (`#validators/*`) like controllers.
+ */
+export class ValidatorResolver {
+  constructor(
+    private importResolver: ImportResolver,
+    private routeResolver: RouteResolver
+  ) {}
+
+  /**
+   * The validators a controller method passes to `validateUsing()`.
+   */
+  findMethodValidators(
+    controllerPath: string,
+    methodName: string
+  ): MethodValidator[] {
+    const method = this.routeResolver.findMethodDeclaration(
+      controllerPath,
+      methodName
+    );
+    if (!method) return [];
+
+    const { sourceFile, node } = method;
+    const seen = new Set<string>();
+    return findValidatorUsages(node, sourceFile)
+      .filter((usage) => !seen.has(usage.name) && !!seen.add(usage.name))
+      .map((usage) => ({
+        ...usage,
+        definition: this.resolveValidator(usage.name, sourceFile.fileName),
+      }));
+  }
+
+  /**
+   * Resolves a name used in a file to the `vine.compile(...)` call of the
+   * validator it refers to, or null when it is not a validator.
+   */
+  resolveValidator(
+    localName: string,
+    fromFile: string
+  ): ValidatorDefinition | null {
+    const sourceFile = this.routeResolver.getSourceFile(fromFile);
+    if (!sourceFile) return null;
+
+    const binding = findImportBinding(localName, sourceFile);
+    if (!binding) {
+      return this.findExportedValidator(sourceFile, localName, new Set(), true);
+    }
+
+    const validatorFile = this.importResolver.resolve(
+      binding.importPath,
+      fromFile
+    );
+    const validatorSource =
+      validatorFile && this.routeResolver.getSourceFile(validatorFile);
+    return validatorSource
+      ? this.findExportedValidator(
+          validatorSource,
+          binding.importedName,
+          new Set()
+        )
+      : null;
+  }
+
+  /**
+   * Finds the validator a module exports under `exportName`, through
+   * `export { x } from` re-exports. `local` looks up a declaration that is
+   * not exported.
+   */
+  private findExportedValidator(
+    sourceFile: ts.SourceFile,
+    exportName: string,
+    visited: Set<string>,
+    local = false
+  ): ValidatorDefinition | null {
+    const key = `${sourceFile.fileName}#${exportName}`;
+    if (visited.has(key)) return null;
+    visited.add(key);
+
+    for (const statement of sourceFile.statements) {
+      if (
+        ts.isVariableStatement(statement) &&
+        (local ||
+          statement.modifiers?.some(
+            (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+          ))
+      ) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (
+            ts.isIdentifier(declaration.name) &&
+            declaration.name.text === exportName &&
+            declaration.initializer
+          ) {
+            return toDefinition(
+              sourceFile,
+              exportName,
+              declaration.initializer
+            );
+          }
+        }
+      }
+
+      if (
+        ts.isExportAssignment(statement) &&
+        !statement.isExportEquals &&
+        exportName === "default"
+      ) {
+        return ts.isIdentifier(statement.expression)
+          ? this.findExportedValidator(
+              sourceFile,
+              statement.expression.text,
+              visited,
+              true
+            )
+          : toDefinition(sourceFile, exportName, statement.expression);
+      }
+
+      if (
+        !ts.isExportDeclaration(statement) ||
+        !statement.exportClause ||
+        !ts.isNamedExports(statement.exportClause)
+      ) {
+        continue;
+      }
+      const element = statement.exportClause.elements.find(
+        (element) => element.name.text === exportName
+      );
+      if (!element) continue;
+
+      const localName = (element.propertyName || element.name).text;
+      if (
+        !statement.moduleSpecifier ||
+        !ts.isStringLiteral(statement.moduleSpecifier)
+      ) {
+        return this.findExportedValidator(sourceFile, localName, visited, true);
+      }
+      const target = this.importResolver.resolve(
+        statement.moduleSpecifier.text,
+        sourceFile.fileName
+      );
+      const targetSource = target && this.routeResolver.getSourceFile(target);
+      return targetSource
+        ? this.findExportedValidator(targetSource, localName, visited)
+        : null;
+    }
+    return null;
+  }
+}
+
+/**
+ * Finds the identifiers passed to `validateUsing()` in a function, e.g.
+ * `await request.validateUsing(createUserValidator)`.
+ */
+export function findValidatorUsages(
+  node: ts.Node,
+  sourceFile: ts.SourceFile
+): ValidatorUsage[] {
+  const usages: ValidatorUsage[] = [];
+  const visit = (child: ts.Node) => {
+    if (
+      ts.isCallExpression(child) &&
+      ts.isPropertyAccessExpression(child.expression) &&
+      child.expression.name.text === "validateUsing" &&
+      child.arguments.length > 0 &&
+      ts.isIdentifier(child.arguments[0])
+    ) {
+      const validator = child.arguments[0];
+      usages.push({
+        name: validator.text,
+        range: getRange(sourceFile, validator),
+      });
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return usages;
+}
+
+/**
+ * `vine.compile(...)` and `vine.create(...)`, the ways VineJS builds a
+ * validator.
+ */
+function toDefinition(
+  sourceFile: ts.SourceFile,
+  name: string,
+  initializer: ts.Expression
+): ValidatorDefinition | null {
+  if (
+    !ts.isCallExpression(initializer) ||
+    !ts.isPropertyAccessExpression(initializer.expression) ||
+    !["compile", "create"].includes(initializer.expression.name.text) ||
+    initializer.expression.expression.getText(sourceFile) !== "vine"
+  ) {
+    return null;
+  }
+  return {
+    name,
+    filePath: sourceFile.fileName,
+    range: getRange(sourceFile, initializer.expression),
+  };
+}
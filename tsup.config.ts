@@ -1,7 +1,7 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/extension.ts"],
+  entry: ["src/extension.ts", "src/index.ts", "src/cli.ts"],
   format: ["cjs"],
   shims: false,
   // [중요] vscode는 제외하고, typescript는 번들에 포함시킴